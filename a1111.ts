@@ -0,0 +1,257 @@
+/**
+ * Structured parsing of A1111-style "parameters" text.
+ *
+ * Layout written by AUTOMATIC1111 WebUI (and Forge/reForge):
+ *   <prompt, may span lines>
+ *   Negative prompt: <negative, may span lines>
+ *   Steps: 20, Sampler: DPM++ 2M, CFG scale: 7, Seed: 1, Size: 512x768, ...
+ *
+ * The settings line is a comma-separated list of `Key: value` pairs where
+ * values may be JSON-quoted strings (`Lora hashes: "a: 1, b: 2"`) or raw
+ * JSON objects/arrays (`Hashes: {"vae": "..."}`), so it cannot be split on
+ * commas naively.
+ */
+export type HiresParams = {
+    upscale?: number;
+    steps?: number;
+    upscaler?: string;
+    resizeWidth?: number;
+    resizeHeight?: number;
+    sampler?: string;
+    scheduleType?: string;
+    cfgScale?: number;
+    prompt?: string;
+    negativePrompt?: string;
+};
+
+export type GenerationParams = {
+    prompt: string;
+    negativePrompt?: string;
+    steps?: number;
+    sampler?: string;
+    scheduleType?: string;
+    cfgScale?: number;
+    seed?: number;
+    width?: number;
+    height?: number;
+    model?: string;
+    modelHash?: string;
+    vae?: string;
+    vaeHash?: string;
+    denoisingStrength?: number;
+    clipSkip?: number;
+    variationSeed?: number;
+    variationSeedStrength?: number;
+    hires?: HiresParams;
+    loraHashes?: Record<string, string>;
+    tiHashes?: Record<string, string>;
+    hashes?: Record<string, unknown>;
+    version?: string;
+    /** Settings keys without a typed slot, with their original labels. */
+    extra: Record<string, string>;
+};
+
+export type SettingsEntry = { key: string; value: string };
+
+const NEGATIVE_PREFIX_RE = /^[\t ]*Negative prompt:[\t ]?/i;
+
+/**
+ * Tokenize an A1111 settings line into ordered key/value pairs.
+ * Quoted values are unquoted; JSON objects/arrays are kept verbatim.
+ */
+export function tokenizeSettingsLine(line: string): SettingsEntry[] {
+    const out: SettingsEntry[] = [];
+    const n = line.length;
+    let i = 0;
+    const skipWs = () => { while (i < n && (line[i] === " " || line[i] === "\t")) i++; };
+    while (i < n) {
+        skipWs();
+        // Key: up to the first ':' (keys never contain commas or quotes)
+        const keyStart = i;
+        while (i < n && line[i] !== ":" && line[i] !== ",") i++;
+        if (i >= n || line[i] === ",") { i++; continue; }
+        const key = line.slice(keyStart, i).trim();
+        i++; // ':'
+        skipWs();
+        let value: string;
+        const c = line[i];
+        if (c === '"') {
+            const end = scanQuoted(line, i);
+            const quoted = line.slice(i, end);
+            try { value = JSON.parse(quoted); } catch { value = quoted.slice(1, quoted.endsWith('"') ? -1 : undefined); }
+            i = end;
+        } else if (c === "{" || c === "[") {
+            const end = scanBalanced(line, i);
+            value = line.slice(i, end);
+            i = end;
+        } else {
+            const comma = line.indexOf(",", i);
+            const end = comma === -1 ? n : comma;
+            value = line.slice(i, end).trim();
+            i = end;
+        }
+        // Drop anything between the value and the separating comma
+        const comma = line.indexOf(",", i);
+        i = comma === -1 ? n : comma + 1;
+        if (key) out.push({ key, value });
+    }
+    return out;
+}
+
+// Returns the index just past the closing quote (or end of line if unterminated)
+function scanQuoted(s: string, start: number): number {
+    let i = start + 1;
+    while (i < s.length) {
+        const c = s[i];
+        if (c === "\\") { i += 2; continue; }
+        if (c === '"') return i + 1;
+        i++;
+    }
+    return s.length;
+}
+
+// Returns the index just past the bracket that closes s[start], honoring JSON strings
+function scanBalanced(s: string, start: number): number {
+    let depth = 0;
+    let i = start;
+    while (i < s.length) {
+        const c = s[i];
+        if (c === '"') { i = scanQuoted(s, i); continue; }
+        if (c === "{" || c === "[") depth++;
+        else if (c === "}" || c === "]") { depth--; if (depth === 0) return i + 1; }
+        i++;
+    }
+    return s.length;
+}
+
+// A line is treated as the settings line when it tokenizes into several pairs
+// and at least one of them is a well-known A1111 key
+function isSettingsLine(line: string): boolean {
+    if (/^[\t ]*Steps:/i.test(line)) return true;
+    const entries = tokenizeSettingsLine(line);
+    return entries.length >= 3 && entries.some((e) => own(NUMBER_KEYS, e.key.toLowerCase()) || own(STRING_KEYS, e.key.toLowerCase()));
+}
+
+/** Parse a full A1111 parameters block. Returns null for empty input. */
+export function parseA1111Parameters(text: string | null | undefined): GenerationParams | null {
+    if (!text || !text.trim()) return null;
+    const lines = text.split(/\r?\n/);
+    while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+
+    let settings: SettingsEntry[] = [];
+    if (lines.length && isSettingsLine(lines[lines.length - 1])) {
+        settings = tokenizeSettingsLine(lines.pop() as string);
+    }
+
+    const promptLines: string[] = [];
+    const negLines: string[] = [];
+    let inNeg = false;
+    for (const ln of lines) {
+        if (!inNeg && NEGATIVE_PREFIX_RE.test(ln)) {
+            inNeg = true;
+            negLines.push(ln.replace(NEGATIVE_PREFIX_RE, ""));
+            continue;
+        }
+        (inNeg ? negLines : promptLines).push(ln);
+    }
+
+    const params: GenerationParams = { prompt: promptLines.join("\n").trim(), extra: {} };
+    if (inNeg) params.negativePrompt = negLines.join("\n").trim();
+    for (const { key, value } of settings) applySetting(params, key, value);
+    return params;
+}
+
+function toNumber(v: string): number | undefined {
+    const t = v.trim();
+    if (!t) return undefined;
+    const n = Number(t);
+    return Number.isFinite(n) ? n : undefined;
+}
+
+function parseSize(v: string): [number, number] | null {
+    const m = v.trim().match(/^(\d+)\s*[x×]\s*(\d+)$/i);
+    return m ? [parseInt(m[1], 10), parseInt(m[2], 10)] : null;
+}
+
+// "name: hash, name2: hash2" as written for Lora/TI hashes
+function parseHashList(v: string): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const part of v.split(",")) {
+        const idx = part.lastIndexOf(":");
+        if (idx <= 0) continue;
+        const name = part.slice(0, idx).trim();
+        const hash = part.slice(idx + 1).trim();
+        if (name) out[name] = hash;
+    }
+    return out;
+}
+
+// Lower-cased setting label → typed slot
+const NUMBER_KEYS: Record<string, keyof GenerationParams> = {
+    "steps": "steps",
+    "cfg scale": "cfgScale",
+    "seed": "seed",
+    "denoising strength": "denoisingStrength",
+    "clip skip": "clipSkip",
+    "variation seed": "variationSeed",
+    "variation seed strength": "variationSeedStrength",
+};
+const STRING_KEYS: Record<string, keyof GenerationParams> = {
+    "sampler": "sampler",
+    "schedule type": "scheduleType",
+    "model": "model",
+    "model hash": "modelHash",
+    "vae": "vae",
+    "vae hash": "vaeHash",
+    "version": "version",
+};
+const HIRES_NUMBER_KEYS: Record<string, keyof HiresParams> = {
+    "hires upscale": "upscale",
+    "hires steps": "steps",
+    "hires cfg scale": "cfgScale",
+};
+const HIRES_STRING_KEYS: Record<string, keyof HiresParams> = {
+    "hires upscaler": "upscaler",
+    "hires sampler": "sampler",
+    "hires schedule type": "scheduleType",
+    "hires prompt": "prompt",
+    "hires negative prompt": "negativePrompt",
+};
+
+const own = (o: object, k: string) => Object.prototype.hasOwnProperty.call(o, k);
+
+function applySetting(p: GenerationParams, key: string, value: string) {
+    const k = key.toLowerCase();
+    if (own(NUMBER_KEYS, k)) {
+        const n = toNumber(value);
+        if (n !== undefined) { (p as any)[NUMBER_KEYS[k]] = n; return; }
+    } else if (own(STRING_KEYS, k)) {
+        (p as any)[STRING_KEYS[k]] = value;
+        return;
+    } else if (own(HIRES_NUMBER_KEYS, k)) {
+        const n = toNumber(value);
+        if (n !== undefined) { ((p.hires ??= {}) as any)[HIRES_NUMBER_KEYS[k]] = n; return; }
+    } else if (own(HIRES_STRING_KEYS, k)) {
+        ((p.hires ??= {}) as any)[HIRES_STRING_KEYS[k]] = value;
+        return;
+    } else if (k === "size") {
+        const wh = parseSize(value);
+        if (wh) { [p.width, p.height] = wh; return; }
+    } else if (k === "hires resize") {
+        const wh = parseSize(value);
+        if (wh) { const h = (p.hires ??= {}); [h.resizeWidth, h.resizeHeight] = wh; return; }
+    } else if (k === "lora hashes") {
+        p.loraHashes = parseHashList(value);
+        return;
+    } else if (k === "ti hashes") {
+        p.tiHashes = parseHashList(value);
+        return;
+    } else if (k === "hashes") {
+        try {
+            const obj = JSON.parse(value);
+            if (obj && typeof obj === "object" && !Array.isArray(obj)) { p.hashes = obj; return; }
+        } catch { /* keep as extra */ }
+    }
+    // Unknown key or a value that didn't fit its typed slot
+    p.extra[key] = value;
+}
@@ -0,0 +1,339 @@
+/**
+ * Minimal ISO-BMFF (ISO/IEC 14496-12) walker for HEIF-based images (AVIF/HEIC).
+ *
+ * Only the boxes needed to locate metadata items are read:
+ *   ftyp → brands
+ *   meta → pitm (primary item), iinf/infe (item types), iloc (item extents),
+ *          idat (construction method 1), iprp/ipco/ipma (ispe dimensions)
+ * Image data is never decoded.
+ */
+export type BmffBox = { type: string; start: number; headerSize: number; size: number };
+
+export type HeifItems = {
+    brand: string;
+    compatible: string[];
+    /** Exif item payload starting at the TIFF header */
+    exif: Uint8Array | null;
+    /** XMP packets (`mime` items with an XML content type) */
+    xmp: Uint8Array[];
+    width?: number;
+    height?: number;
+};
+
+const u16 = (u8: Uint8Array, o: number) => ((u8[o] << 8) | u8[o + 1]) >>> 0;
+const u32 = (u8: Uint8Array, o: number) => ((u8[o] << 24) | (u8[o + 1] << 16) | (u8[o + 2] << 8) | u8[o + 3]) >>> 0;
+const fourcc = (u8: Uint8Array, o: number) => String.fromCharCode(u8[o], u8[o + 1], u8[o + 2], u8[o + 3]);
+
+// Read an unsigned big-endian integer of 0/2/4/8 bytes (8-byte values above 2^53 are clamped)
+function readSized(u8: Uint8Array, o: number, size: number): number {
+    if (size === 0) return 0;
+    if (size === 2) return u16(u8, o);
+    if (size === 4) return u32(u8, o);
+    if (size === 8) return u32(u8, o) * 0x100000000 + u32(u8, o + 4);
+    return 0;
+}
+
+/** List child boxes in [start, end). Stops at the first malformed box. */
+export function listBoxes(u8: Uint8Array, start: number, end: number): BmffBox[] {
+    const out: BmffBox[] = [];
+    let off = start;
+    while (off + 8 <= end) {
+        let size = u32(u8, off);
+        const type = fourcc(u8, off + 4);
+        let headerSize = 8;
+        if (size === 1) {
+            if (off + 16 > end) break;
+            size = readSized(u8, off + 8, 8);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - off; // box extends to end of enclosing container
+        }
+        if (size < headerSize || off + size > end) break;
+        out.push({ type, start: off, headerSize, size });
+        off += size;
+    }
+    return out;
+}
+
+function findBox(u8: Uint8Array, start: number, end: number, type: string): BmffBox | null {
+    for (const b of listBoxes(u8, start, end)) if (b.type === type) return b;
+    return null;
+}
+
+export function isHeifBrand(brand: string): boolean {
+    return ["avif", "avis", "heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"].includes(brand);
+}
+
+/** Classify an ftyp box: "avif", "heic" or null when the file is not a HEIF image. */
+export function detectHeifFormat(u8: Uint8Array): "avif" | "heic" | null {
+    if (u8.length < 16 || fourcc(u8, 4) !== "ftyp") return null;
+    const size = Math.min(u32(u8, 0), u8.length);
+    const brands = [fourcc(u8, 8)];
+    for (let o = 16; o + 4 <= size; o += 4) brands.push(fourcc(u8, o));
+    if (brands.includes("avif") || brands.includes("avis")) return "avif";
+    return brands.some(isHeifBrand) ? "heic" : null;
+}
+
+type ItemLocation = { constructionMethod: number; baseOffset: number; extents: { offset: number; length: number }[] };
+
+/** Locate Exif and XMP items in a HEIF file. Returns null when there is no usable `meta` box. */
+export function readHeifItems(u8: Uint8Array): HeifItems | null {
+    const ftyp = findBox(u8, 0, u8.length, "ftyp");
+    if (!ftyp) return null;
+    const fStart = ftyp.start + ftyp.headerSize;
+    const brand = fourcc(u8, fStart);
+    const compatible: string[] = [];
+    for (let o = fStart + 8; o + 4 <= ftyp.start + ftyp.size; o += 4) compatible.push(fourcc(u8, o));
+
+    const meta = findBox(u8, 0, u8.length, "meta");
+    if (!meta) return null;
+    // meta is a FullBox: skip version/flags
+    const mStart = meta.start + meta.headerSize + 4;
+    const mEnd = meta.start + meta.size;
+
+    let primaryId = -1;
+    const itemTypes: { id: number; type: string; contentType?: string }[] = [];
+    const locations: Record<number, ItemLocation> = {};
+    let idat: BmffBox | null = null;
+    const ispes: { width: number; height: number }[] = [];
+    const assoc: Record<number, number[]> = {};
+
+    for (const b of listBoxes(u8, mStart, mEnd)) {
+        const body = b.start + b.headerSize;
+        const bEnd = b.start + b.size;
+        if (b.type === "pitm") {
+            const version = u8[body];
+            primaryId = version === 0 ? u16(u8, body + 4) : u32(u8, body + 4);
+        } else if (b.type === "iinf") {
+            const version = u8[body];
+            const entriesStart = body + 4 + (version === 0 ? 2 : 4);
+            for (const infe of listBoxes(u8, entriesStart, bEnd)) {
+                if (infe.type !== "infe") continue;
+                const info = readInfe(u8, infe);
+                if (info) itemTypes.push(info);
+            }
+        } else if (b.type === "iloc") {
+            readIloc(u8, body, bEnd, locations);
+        } else if (b.type === "idat") {
+            idat = b;
+        } else if (b.type === "iprp") {
+            readIprp(u8, body, bEnd, ispes, assoc);
+        }
+    }
+
+    const itemData = (id: number): Uint8Array | null => {
+        const loc = locations[id];
+        if (!loc || !loc.extents.length) return null;
+        const parts: Uint8Array[] = [];
+        for (const ex of loc.extents) {
+            let start = loc.baseOffset + ex.offset;
+            if (loc.constructionMethod === 1) {
+                if (!idat) return null;
+                start += idat.start + idat.headerSize;
+            } else if (loc.constructionMethod !== 0) {
+                return null; // item-offset construction is not used for metadata
+            }
+            const len = ex.length || (u8.length - start);
+            if (start < 0 || start + len > u8.length) return null;
+            parts.push(u8.subarray(start, start + len));
+        }
+        if (parts.length === 1) return parts[0];
+        const total = parts.reduce((n, p) => n + p.length, 0);
+        const out = new Uint8Array(total);
+        let p = 0; for (const part of parts) { out.set(part, p); p += part.length; }
+        return out;
+    };
+
+    let exif: Uint8Array | null = null;
+    const xmp: Uint8Array[] = [];
+    for (const info of itemTypes) {
+        if (info.type === "Exif" && !exif) {
+            const data = itemData(info.id);
+            // Exif item: 4-byte offset to the TIFF header, then the EXIF block
+            if (data && data.length > 4) {
+                const tiffOff = 4 + u32(data, 0);
+                if (tiffOff < data.length) exif = data.subarray(tiffOff);
+            }
+        } else if (info.type === "mime" && /xml|xmp/i.test(info.contentType ?? "")) {
+            const data = itemData(info.id);
+            if (data) xmp.push(data);
+        }
+    }
+
+    const out: HeifItems = { brand, compatible, exif, xmp };
+    const props = assoc[primaryId];
+    const known = ispes.filter(Boolean);
+    const ispe = props?.map((i) => ispes[i]).find(Boolean) ?? (known.length === 1 ? known[0] : undefined);
+    if (ispe) { out.width = ispe.width; out.height = ispe.height; }
+    return out;
+}
+
+function readCString(u8: Uint8Array, start: number, end: number): { text: string; next: number } {
+    let z = start;
+    while (z < end && u8[z] !== 0) z++;
+    let text = "";
+    try { text = new TextDecoder("utf-8").decode(u8.subarray(start, z)); } catch { /* ignore */ }
+    return { text, next: Math.min(end, z + 1) };
+}
+
+function readInfe(u8: Uint8Array, box: BmffBox): { id: number; type: string; contentType?: string } | null {
+    const body = box.start + box.headerSize;
+    const end = box.start + box.size;
+    const version = u8[body];
+    // Versions 0/1 predate item types and are not used by HEIF metadata items
+    if (version < 2) return null;
+    let p = body + 4;
+    const id = version === 2 ? u16(u8, p) : u32(u8, p);
+    p += version === 2 ? 2 : 4;
+    p += 2; // protection index
+    const type = fourcc(u8, p); p += 4;
+    const name = readCString(u8, p, end); p = name.next;
+    if (type === "mime") {
+        const ct = readCString(u8, p, end);
+        return { id, type, contentType: ct.text };
+    }
+    return { id, type };
+}
+
+function readIloc(u8: Uint8Array, body: number, end: number, out: Record<number, ItemLocation>) {
+    const version = u8[body];
+    let p = body + 4;
+    const offsetSize = u8[p] >> 4;
+    const lengthSize = u8[p] & 0xf;
+    const baseOffsetSize = u8[p + 1] >> 4;
+    const indexSize = version === 1 || version === 2 ? u8[p + 1] & 0xf : 0;
+    p += 2;
+    const count = version < 2 ? u16(u8, p) : u32(u8, p);
+    p += version < 2 ? 2 : 4;
+    for (let i = 0; i < count && p < end; i++) {
+        const id = version < 2 ? u16(u8, p) : u32(u8, p);
+        p += version < 2 ? 2 : 4;
+        let constructionMethod = 0;
+        if (version === 1 || version === 2) { constructionMethod = u16(u8, p) & 0xf; p += 2; }
+        p += 2; // data reference index
+        const baseOffset = readSized(u8, p, baseOffsetSize); p += baseOffsetSize;
+        const extentCount = u16(u8, p); p += 2;
+        const extents: { offset: number; length: number }[] = [];
+        for (let e = 0; e < extentCount && p <= end; e++) {
+            p += indexSize;
+            const offset = readSized(u8, p, offsetSize); p += offsetSize;
+            const length = readSized(u8, p, lengthSize); p += lengthSize;
+            extents.push({ offset, length });
+        }
+        out[id] = { constructionMethod, baseOffset, extents };
+    }
+}
+
+// ipco children are indexed from 1 in ipma; ispes[i] is set only for ispe boxes
+function readIprp(u8: Uint8Array, body: number, end: number, ispes: { width: number; height: number }[], assoc: Record<number, number[]>) {
+    for (const b of listBoxes(u8, body, end)) {
+        const bBody = b.start + b.headerSize;
+        const bEnd = b.start + b.size;
+        if (b.type === "ipco") {
+            let index = 1;
+            for (const prop of listBoxes(u8, bBody, bEnd)) {
+                if (prop.type === "ispe" && prop.size >= prop.headerSize + 12) {
+                    const p = prop.start + prop.headerSize + 4;
+                    ispes[index] = { width: u32(u8, p), height: u32(u8, p + 4) };
+                }
+                index++;
+            }
+        } else if (b.type === "ipma") {
+            const version = u8[bBody];
+            const flags = u8[bBody + 3];
+            let p = bBody + 4;
+            const count = u32(u8, p); p += 4;
+            for (let i = 0; i < count && p < bEnd; i++) {
+                const id = version < 1 ? u16(u8, p) : u32(u8, p);
+                p += version < 1 ? 2 : 4;
+                const n = u8[p++];
+                const props: number[] = [];
+                for (let j = 0; j < n; j++) {
+                    if (flags & 1) { props.push(u16(u8, p) & 0x7fff); p += 2; }
+                    else { props.push(u8[p] & 0x7f); p += 1; }
+                }
+                assoc[id] = props;
+            }
+        }
+    }
+}
+
+// iTunes-style ilst item names → tag keys
+const ILST_NAMES: Record<string, string> = {
+    "©cmt": "comment",
+    "©nam": "title",
+    "©too": "encoder",
+    "©des": "description",
+    "desc": "description",
+};
+
+/**
+ * Collect text metadata from an MP4/MOV `moov` box without touching media data:
+ *   moov/udta/©xxx            QuickTime text atoms (e.g. ©cmt)
+ *   moov[/udta]/meta/ilst     iTunes items (©cmt ...) and `mdta` keys (ffmpeg use_metadata_tags)
+ * Keys are lower-cased; later duplicates do not overwrite earlier ones.
+ */
+export function readMp4Tags(u8: Uint8Array): Record<string, string> {
+    const out: Record<string, string> = {};
+    const put = (k: string, v: string) => { if (k && v && !(k in out)) out[k] = v; };
+    const moov = findBox(u8, 0, u8.length, "moov");
+    if (!moov) return out;
+    const mStart = moov.start + moov.headerSize;
+    const mEnd = moov.start + moov.size;
+    for (const b of listBoxes(u8, mStart, mEnd)) {
+        if (b.type === "meta") readMp4Meta(u8, b, put);
+        if (b.type !== "udta") continue;
+        for (const c of listBoxes(u8, b.start + b.headerSize, b.start + b.size)) {
+            if (c.type === "meta") {
+                readMp4Meta(u8, c, put);
+            } else if (c.type.charCodeAt(0) === 0xa9) {
+                // QuickTime text atom: [u16 length][u16 language][text]
+                const body = c.start + c.headerSize;
+                const len = u16(u8, body);
+                if (body + 4 + len <= c.start + c.size) {
+                    put(ILST_NAMES[c.type] ?? c.type.slice(1), decodeUtf8(u8.subarray(body + 4, body + 4 + len)));
+                }
+            }
+        }
+    }
+    return out;
+}
+
+function decodeUtf8(u: Uint8Array): string {
+    try { return new TextDecoder("utf-8").decode(u).replace(/\u0000+$/g, ""); } catch { return ""; }
+}
+
+function readMp4Meta(u8: Uint8Array, meta: BmffBox, put: (k: string, v: string) => void) {
+    let start = meta.start + meta.headerSize;
+    const end = meta.start + meta.size;
+    // ISO meta is a FullBox; QuickTime meta is a plain container
+    if (u32(u8, start) === 0) start += 4;
+    const keys: string[] = [];
+    const children = listBoxes(u8, start, end);
+    for (const b of children) {
+        if (b.type !== "keys") continue;
+        let p = b.start + b.headerSize + 4;
+        const count = u32(u8, p); p += 4;
+        for (let i = 0; i < count && p + 8 <= b.start + b.size; i++) {
+            const size = u32(u8, p);
+            if (size < 8) break;
+            keys[i + 1] = decodeUtf8(u8.subarray(p + 8, p + size)); // 1-based, skip namespace
+            p += size;
+        }
+    }
+    for (const b of children) {
+        if (b.type !== "ilst") continue;
+        for (const item of listBoxes(u8, b.start + b.headerSize, b.start + b.size)) {
+            // With a keys box, item types are 1-based key indexes
+            const index = u32(u8, item.start + 4);
+            const name = keys[index] ?? ILST_NAMES[item.type] ?? item.type.replace(/^©/, "");
+            for (const data of listBoxes(u8, item.start + item.headerSize, item.start + item.size)) {
+                if (data.type !== "data") continue;
+                // [u32 type indicator][u32 locale][value]; type 1 = UTF-8
+                const body = data.start + data.headerSize;
+                if (u32(u8, body) === 1) put(name.toLowerCase(), decodeUtf8(u8.subarray(body + 8, data.start + data.size)));
+                break;
+            }
+        }
+    }
+}
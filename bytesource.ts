@@ -0,0 +1,303 @@
+import { App, FileSystemAdapter, TFile } from "obsidian";
+import { detectHeifFormat } from "./bmff";
+
+/**
+ * Random-access reads of vault files, and a header-only reader that copies
+ * just the metadata-bearing structures of a file.
+ *
+ * Sources, in order of preference:
+ *   desktop   Node `fs` positional reads on the vault path
+ *   mobile    `fetch` of the resource URL with a Range header (must answer 206)
+ * When neither works the caller reads the whole file.
+ */
+export interface ByteSource {
+    readonly size: number;
+    /** Up to `length` bytes at `offset`; shorter only at the end of the file. */
+    read(offset: number, length: number): Promise<Uint8Array>;
+    close(): Promise<void>;
+}
+
+/** A random-access source for a vault file, or null when ranged reads are not available. */
+export async function openByteSource(app: App, file: TFile): Promise<ByteSource | null> {
+    const adapter = app.vault.adapter;
+    const nodeRequire = (window as any).require;
+    if (adapter instanceof FileSystemAdapter && typeof nodeRequire === "function") {
+        try {
+            const fs = nodeRequire("fs");
+            const handle = await fs.promises.open(adapter.getFullPath(file.path), "r");
+            return {
+                size: file.stat.size,
+                read: async (offset, length) => {
+                    const n = Math.max(0, Math.min(length, file.stat.size - offset));
+                    const out = new Uint8Array(n);
+                    let got = 0;
+                    while (got < n) {
+                        const { bytesRead } = await handle.read(out, got, n - got, offset + got);
+                        if (!bytesRead) break;
+                        got += bytesRead;
+                    }
+                    return got < n ? out.subarray(0, got) : out;
+                },
+                close: () => handle.close(),
+            };
+        } catch { /* ignore */ }
+    }
+    return rangeFetchSource(app.vault.getResourcePath(file), file.stat.size);
+}
+
+// Ranged HTTP reads of the app's resource URL; probed once, null when the server ignores Range
+async function rangeFetchSource(url: string, size: number): Promise<ByteSource | null> {
+    const read = async (offset: number, length: number): Promise<Uint8Array> => {
+        const end = Math.min(size, offset + length) - 1;
+        if (end < offset) return new Uint8Array(0);
+        const ctrl = new AbortController();
+        const res = await fetch(url, { headers: { Range: `bytes=${offset}-${end}` }, signal: ctrl.signal });
+        // A 200 would stream the whole file; stop it
+        if (res.status !== 206) { ctrl.abort(); throw new Error(`Range request not supported (${res.status})`); }
+        return new Uint8Array(await res.arrayBuffer());
+    };
+    try {
+        await read(0, 16);
+    } catch {
+        return null;
+    }
+    return { size, read, close: async () => { } };
+}
+
+// ---- Header-only reads ----
+
+const WINDOW_BYTES = 256 * 1024;
+
+// Serves the many small header reads from one buffered window
+class WindowReader {
+    private start = 0;
+    private buf: Uint8Array = new Uint8Array(0);
+
+    constructor(private src: ByteSource) { }
+
+    get size() { return this.src.size; }
+
+    async bytes(offset: number, length: number): Promise<Uint8Array> {
+        const hit = this.cached(offset, length);
+        if (hit) return hit;
+        if (length > WINDOW_BYTES) return this.src.read(offset, length);
+        this.start = offset;
+        this.buf = await this.src.read(offset, WINDOW_BYTES);
+        return this.buf.subarray(0, Math.min(length, this.buf.length));
+    }
+
+    // Headers of payloads that are skipped: read just these bytes and leave the window as is
+    async peek(offset: number, length: number): Promise<Uint8Array> {
+        return this.cached(offset, length) ?? this.src.read(offset, length);
+    }
+
+    private cached(offset: number, length: number): Uint8Array | null {
+        if (offset < this.start || offset + length > this.start + this.buf.length) return null;
+        return this.buf.subarray(offset - this.start, offset - this.start + length);
+    }
+}
+
+/**
+ * A condensed copy of the file holding only its metadata-bearing structures,
+ * in the same container format so `parseImageMeta` reads it unchanged:
+ *   PNG   every chunk except IDAT/fdAT (text after the image data included)
+ *   JPEG  every segment up to SOS, then EOI
+ *   WebP  every chunk, with VP8/VP8L/ALPH/ANMF payloads cut to their headers
+ *   MP4   every top-level box except mdat/free/skip
+ *   WebM  the EBML header and every Segment child except Clusters
+ * Returns null for formats that need the whole file (GIF, AVIF/HEIC).
+ */
+export async function readMetadataBytes(src: ByteSource): Promise<Uint8Array | null> {
+    const r = new WindowReader(src);
+    const head = await r.bytes(0, 64);
+    let parts: Uint8Array[] | null = null;
+    if (head.length >= 8 && head[0] === 0x89 && head[1] === 0x50 && head[2] === 0x4e && head[3] === 0x47) parts = await pngParts(r);
+    else if (head.length >= 4 && head[0] === 0xff && head[1] === 0xd8) parts = await jpegParts(r);
+    else if (head.length >= 12 && ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 4) === "WEBP") parts = await webpParts(r);
+    else if (head.length >= 12 && ascii(head, 4, 4) === "ftyp" && !detectHeifFormat(head)) parts = await mp4Parts(r);
+    else if (head.length >= 4 && u32be(head, 0) === ID_EBML) parts = await webmParts(r);
+    if (!parts) return null;
+    let total = 0;
+    for (const p of parts) total += p.length;
+    const out = new Uint8Array(total);
+    let o = 0;
+    for (const p of parts) { out.set(p, o); o += p.length; }
+    return out;
+}
+
+function ascii(u8: Uint8Array, o: number, n: number): string {
+    let s = "";
+    for (let i = 0; i < n; i++) s += String.fromCharCode(u8[o + i]);
+    return s;
+}
+const u32be = (a: Uint8Array, o: number) => ((a[o] << 24) | (a[o + 1] << 16) | (a[o + 2] << 8) | a[o + 3]) >>> 0;
+const u32le = (a: Uint8Array, o: number) => (a[o] | (a[o + 1] << 8) | (a[o + 2] << 16) | (a[o + 3] << 24)) >>> 0;
+
+// Copy a range, stopping the walk (null) when the file is shorter than its headers claim
+async function copy(r: WindowReader, offset: number, length: number): Promise<Uint8Array | null> {
+    const b = await r.bytes(offset, length);
+    return b.length === length ? b.slice() : null;
+}
+
+async function pngParts(r: WindowReader): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [await r.bytes(0, 8)];
+    let off = 8;
+    while (off + 12 <= r.size) {
+        // IDAT usually dominates the file; its headers are read on their own
+        const h = await r.peek(off, 8);
+        if (h.length < 8) break;
+        const len = u32be(h, 0);
+        const type = ascii(h, 4, 4);
+        if (type !== "IDAT" && type !== "fdAT") {
+            const chunk = await copy(r, off, 12 + len);
+            if (!chunk) break;
+            parts.push(chunk);
+        }
+        off += 12 + len;
+        if (type === "IEND") break;
+    }
+    return parts;
+}
+
+async function jpegParts(r: WindowReader): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [new Uint8Array([0xff, 0xd8])];
+    let off = 2;
+    while (off + 4 <= r.size) {
+        const h = await r.bytes(off, 4);
+        if (h.length < 4 || h[0] !== 0xff) break;
+        const marker = h[1];
+        if (marker === 0xff) { off++; continue; }
+        // Standalone markers carry no length
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { off += 2; continue; }
+        if (marker === 0xda || marker === 0xd9) break;
+        const len = (h[2] << 8) | h[3];
+        const seg = await copy(r, off, 2 + len);
+        if (!seg) break;
+        parts.push(seg);
+        off += 2 + len;
+    }
+    parts.push(new Uint8Array([0xff, 0xd9]));
+    return parts;
+}
+
+// Bitstream chunks keep only what the parser reads: frame header / dimensions
+const WEBP_CUT: Record<string, number> = { "VP8 ": 32, "VP8L": 32, "ALPH": 0, "ANMF": 24 };
+
+async function webpParts(r: WindowReader): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [(await r.bytes(0, 12)).slice()];
+    let off = 12;
+    while (off + 8 <= r.size) {
+        const h = await r.bytes(off, 8);
+        if (h.length < 8) break;
+        const tag = ascii(h, 0, 4);
+        const size = u32le(h, 4);
+        const padded = size + (size & 1);
+        const cut = WEBP_CUT[tag];
+        if (cut !== undefined && size > cut) {
+            const data = await copy(r, off + 8, cut);
+            if (!data) break;
+            const hdr = h.slice();
+            hdr[4] = cut & 0xff; hdr[5] = (cut >> 8) & 0xff; hdr[6] = 0; hdr[7] = 0;
+            parts.push(hdr, data);
+        } else {
+            const chunk = await copy(r, off, Math.min(8 + padded, r.size - off));
+            if (!chunk) break;
+            parts.push(chunk);
+        }
+        off += 8 + padded;
+    }
+    return parts;
+}
+
+const MP4_SKIP: Record<string, true> = { mdat: true, free: true, skip: true, wide: true };
+
+async function mp4Parts(r: WindowReader): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [];
+    let off = 0;
+    while (off + 8 <= r.size) {
+        const h = await r.bytes(off, 16);
+        if (h.length < 8) break;
+        let size = u32be(h, 0);
+        const type = ascii(h, 4, 4);
+        if (size === 1 && h.length >= 16) size = u32be(h, 8) * 0x100000000 + u32be(h, 12);
+        else if (size === 0) size = r.size - off;
+        if (size < 8) break;
+        if (!MP4_SKIP[type]) {
+            const box = await copy(r, off, size);
+            if (!box) break;
+            parts.push(box);
+        }
+        off += size;
+    }
+    return parts;
+}
+
+const ID_EBML = 0x1a45dfa3;
+const ID_SEGMENT = 0x18538067;
+const ID_CLUSTER = 0x1f43b675;
+// Segment size rewritten as "unknown": the condensed segment simply runs to the end of the data
+const UNKNOWN_SIZE = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+// EBML element header: ID (marker kept), data size (marker stripped; all ones = unknown)
+function ebmlHeader(h: Uint8Array): { id: number; headerLen: number; size: number | null } | null {
+    const vint = (o: number) => {
+        const first = h[o];
+        if (!first) return null;
+        let len = 1, mask = 0x80;
+        while (!(first & mask)) { mask >>= 1; len++; }
+        if (o + len > h.length) return null;
+        return { len, first, mask };
+    };
+    const a = vint(0);
+    if (!a) return null;
+    let id = a.first;
+    for (let i = 1; i < a.len; i++) id = id * 256 + h[i];
+    const b = vint(a.len);
+    if (!b) return null;
+    let size = b.first & (b.mask - 1);
+    let allOnes = size === b.mask - 1;
+    for (let i = 1; i < b.len; i++) {
+        size = size * 256 + h[a.len + i];
+        if (h[a.len + i] !== 0xff) allOnes = false;
+    }
+    return { id, headerLen: a.len + b.len, size: allOnes ? null : size };
+}
+
+async function webmParts(r: WindowReader): Promise<Uint8Array[] | null> {
+    const parts: Uint8Array[] = [];
+    let off = 0;
+    while (off < r.size) {
+        const el = ebmlHeader(await r.bytes(off, 16));
+        if (!el) break;
+        const dataStart = off + el.headerLen;
+        if (el.id === ID_SEGMENT) {
+            parts.push(new Uint8Array([0x18, 0x53, 0x80, 0x67, ...UNKNOWN_SIZE]));
+            const end = el.size === null ? r.size : Math.min(r.size, dataStart + el.size);
+            await webmSegmentChildren(r, dataStart, end, parts);
+            off = end;
+            continue;
+        }
+        if (el.size === null) break;
+        const whole = await copy(r, off, el.headerLen + el.size);
+        if (!whole) break;
+        parts.push(whole);
+        off = dataStart + el.size;
+    }
+    return parts.length ? parts : null;
+}
+
+async function webmSegmentChildren(r: WindowReader, start: number, end: number, parts: Uint8Array[]) {
+    let off = start;
+    while (off < end) {
+        const el = ebmlHeader(await r.bytes(off, 16));
+        // Unknown-size children (live-recorded clusters) cannot be skipped
+        if (!el || el.size === null) return;
+        const next = off + el.headerLen + el.size;
+        if (el.id !== ID_CLUSTER) {
+            const whole = await copy(r, off, Math.min(next, end) - off);
+            if (!whole) return;
+            parts.push(whole);
+        }
+        off = next;
+    }
+}
@@ -0,0 +1,187 @@
+import { App, TFile } from "obsidian";
+import { needsFullFile } from "./parser";
+import type { ImageMeta, ParseOptions } from "./parser";
+import { openByteSource, readMetadataBytes } from "./bytesource";
+import type { ParserWorker, ParseRequestOptions } from "./parseworker";
+
+/**
+ * Persistent cache of parse results. Each file's `ImageMeta` is stored as
+ * `cache/<hash of path>.json` in the plugin folder together with the path,
+ * mtime, size and parse options it was computed from; a lookup only hits
+ * when all of them still match. The most recent results are also kept in
+ * memory. Vault modify/rename/delete events drop the stored entry.
+ * Misses are parsed by the worker; partial (timed-out) results are not stored.
+ *
+ * Large files are read header-only first (see bytesource.ts). When the
+ * result could change with the whole file (recovery scans, stealth decoding)
+ * the whole file is read and parsed again, up to MAX_FULL_READ_BYTES; above
+ * that the header-only result is kept and marked `headOnly`, and formats
+ * without a header-only reader are rejected instead of read.
+ */
+type CacheEntry = { version: number; path: string; mtime: number; size: number; options: string; meta: ImageMeta };
+
+// Bump when the parser output changes so old entries are re-parsed
+const CACHE_VERSION = 2;
+const MEMORY_ENTRIES = 32;
+// Smaller files are read whole in one go
+const HEAD_READ_MIN_BYTES = 2 * 1024 * 1024;
+// Above this, recovery scans and stealth decoding are skipped rather than loading the file
+const MAX_FULL_READ_BYTES = 64 * 1024 * 1024;
+
+export class ParseCache {
+    private memory: Record<string, CacheEntry> = {};
+    // Most recently used last
+    private memoryOrder: string[] = [];
+    // One parse per file at a time, shared by concurrent callers
+    private inflight: Record<string, Promise<ImageMeta>> = {};
+
+    constructor(private app: App, private dir: string, private parser: ParserWorker, private options: () => ParseOptions = () => ({})) { }
+
+    /**
+     * Parsed metadata for a file, from the cache when path, mtime, size and options match.
+     * Requests with a signal are not shared, so cancelling one never affects another caller.
+     */
+    async get(file: TFile, req: ParseRequestOptions = {}): Promise<ImageMeta> {
+        const options = this.optionsKey();
+        const mem = this.memory[file.path];
+        if (mem && this.matches(mem, file, options)) { this.touch(file.path); return mem.meta; }
+        if (req.signal) return this.load(file, options, req);
+        const key = `${file.path}\n${file.stat.mtime}\n${file.stat.size}\n${options}`;
+        const pending = this.inflight[key];
+        if (pending) return pending;
+        const p = this.load(file, options, req).finally(() => { delete this.inflight[key]; });
+        this.inflight[key] = p;
+        return p;
+    }
+
+    /** Current parse options as stored with each entry; results differ when this changes. */
+    optionsKey(): string {
+        return JSON.stringify(this.options());
+    }
+
+    /** Drop the memory and disk entries for a path (modify, rename, delete). */
+    async invalidate(path: string) {
+        this.forget(path);
+        try {
+            const target = this.entryPath(path);
+            if (await this.app.vault.adapter.exists(target)) await this.app.vault.adapter.remove(target);
+        } catch { /* ignore */ }
+    }
+
+    /** Remove every cached entry. */
+    async clear() {
+        this.memory = {};
+        this.memoryOrder = [];
+        try {
+            if (await this.app.vault.adapter.exists(this.dir)) await this.app.vault.adapter.rmdir(this.dir, true);
+        } catch (e) {
+            console.warn("Failed to clear metadata cache", e);
+        }
+    }
+
+    private async load(file: TFile, options: string, req: ParseRequestOptions): Promise<ImageMeta> {
+        const stored = await this.readEntry(file.path);
+        if (stored && this.matches(stored, file, options)) {
+            this.remember(stored);
+            return stored.meta;
+        }
+        const meta = await this.parseFile(file, req);
+        if (meta.partial) return meta;
+        const entry: CacheEntry = { version: CACHE_VERSION, path: file.path, mtime: file.stat.mtime, size: file.stat.size, options, meta };
+        this.remember(entry);
+        void this.writeEntry(entry);
+        return meta;
+    }
+
+    private async parseFile(file: TFile, req: ParseRequestOptions): Promise<ImageMeta> {
+        const ext = file.extension.toLowerCase();
+        const opts = this.options();
+        if (file.stat.size >= HEAD_READ_MIN_BYTES) {
+            const head = await this.readHead(file);
+            if (head) {
+                const meta = await this.parser.parse(head.buffer as ArrayBuffer, ext, { ...opts, recover: false, stealth: false }, req);
+                if (meta.partial || !needsFullFile(meta, opts)) return meta;
+                if (file.stat.size > MAX_FULL_READ_BYTES) return { ...meta, headOnly: true };
+            }
+        }
+        // No header-only reader for this format (GIF, AVIF/HEIC) or source; never load a huge file instead
+        if (file.stat.size > MAX_FULL_READ_BYTES) {
+            throw new Error(`File too large to read whole (${Math.round(file.stat.size / 1048576)} MB, limit ${MAX_FULL_READ_BYTES / 1048576} MB)`);
+        }
+        const buf = await this.app.vault.readBinary(file);
+        return this.parser.parse(buf, ext, opts, req);
+    }
+
+    // Metadata structures only; null when ranged reads or the format are not supported
+    private async readHead(file: TFile): Promise<Uint8Array | null> {
+        const src = await openByteSource(this.app, file);
+        if (!src) return null;
+        try {
+            return await readMetadataBytes(src);
+        } catch (e) {
+            console.warn("Header-only read failed", file.path, e);
+            return null;
+        } finally {
+            await src.close();
+        }
+    }
+
+    private matches(e: CacheEntry, file: TFile, options: string): boolean {
+        return e.version === CACHE_VERSION && e.path === file.path && e.mtime === file.stat.mtime &&
+            e.size === file.stat.size && e.options === options;
+    }
+
+    private async readEntry(path: string): Promise<CacheEntry | null> {
+        try {
+            const target = this.entryPath(path);
+            if (!(await this.app.vault.adapter.exists(target))) return null;
+            const e = JSON.parse(await this.app.vault.adapter.read(target));
+            return e && typeof e === "object" && e.meta ? e as CacheEntry : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async writeEntry(e: CacheEntry) {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.dir))) await this.app.vault.adapter.mkdir(this.dir);
+            await this.app.vault.adapter.write(this.entryPath(e.path), JSON.stringify(e));
+        } catch (err) {
+            console.warn("Failed to write metadata cache", err);
+        }
+    }
+
+    private entryPath(path: string): string {
+        return `${this.dir}/${hashPath(path)}.json`;
+    }
+
+    // ---- memory LRU ----
+    private remember(e: CacheEntry) {
+        this.memory[e.path] = e;
+        this.touch(e.path);
+        while (this.memoryOrder.length > MEMORY_ENTRIES) delete this.memory[this.memoryOrder.shift() as string];
+    }
+
+    private touch(path: string) {
+        const i = this.memoryOrder.indexOf(path);
+        if (i >= 0) this.memoryOrder.splice(i, 1);
+        this.memoryOrder.push(path);
+    }
+
+    private forget(path: string) {
+        delete this.memory[path];
+        const i = this.memoryOrder.indexOf(path);
+        if (i >= 0) this.memoryOrder.splice(i, 1);
+    }
+}
+
+// Two 32-bit FNV-1a style hashes over UTF-16 code units; collisions are caught by the stored path
+function hashPath(path: string): string {
+    let h1 = 0x811c9dc5, h2 = 0xcbf29ce4;
+    for (let i = 0; i < path.length; i++) {
+        const c = path.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 0x01000193) >>> 0;
+        h2 = Math.imul(h2 ^ c, 0x01000193 ^ 0x5bd1e995) >>> 0;
+    }
+    return ("0000000" + h1.toString(16)).slice(-8) + ("0000000" + h2.toString(16)).slice(-8);
+}
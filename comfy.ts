@@ -0,0 +1,786 @@
+/**
+ * ComfyUI API-format prompt graphs: `{ "<id>": { class_type, inputs, _meta } }`.
+ *
+ * An input is either a literal widget value or a link `[sourceId, outputIndex]`.
+ * Extraction walks links upstream from each sampler node:
+ *   positive/negative → conditioning nodes (combine/concat/set area/ControlNet/Flux guidance)
+ *                     → text encoders → primitive/string nodes
+ *   model             → LoRA loaders / model patches → checkpoint or UNet loader
+ *   latent_image      → empty latent (size) / latent upscale / another sampler (hires, refiner)
+ */
+export type ComfyNode = { class_type: string; inputs?: Record<string, any>; _meta?: { title?: string } };
+export type ComfyGraph = Record<string, ComfyNode>;
+export type ComfyLink = [string | number, number];
+
+export type ComfyLora = { name: string; weight?: number; clipWeight?: number };
+
+export type ComfyControlNet = {
+    name?: string;
+    strength?: number;
+    startPercent?: number;
+    endPercent?: number;
+    /** Image file (LoadImage) or preprocessor class feeding the ControlNet */
+    image?: string;
+};
+
+export type ComfySamplerStage = {
+    id: string;
+    classType: string;
+    title?: string;
+    positive?: string;
+    negative?: string;
+    seed?: number;
+    steps?: number;
+    cfg?: number;
+    sampler?: string;
+    scheduler?: string;
+    denoise?: number;
+    startStep?: number;
+    endStep?: number;
+    model?: string;
+    loras: ComfyLora[];
+    width?: number;
+    height?: number;
+    /** Id of the sampler whose output this stage refines (hires fix, refiner) */
+    fromStage?: string;
+    /** Latent upscale between stages, e.g. "bilinear x1.5" or "nearest-exact 1536x1536" */
+    latentUpscale?: string;
+};
+
+export type ComfySummary = {
+    stages: ComfySamplerStage[];
+    checkpoints: string[];
+    vaes: string[];
+    loras: ComfyLora[];
+    upscalers: string[];
+    controlNets: ComfyControlNet[];
+};
+
+export function isComfyLink(v: unknown): v is ComfyLink {
+    return Array.isArray(v) && v.length === 2 && (typeof v[0] === "string" || typeof v[0] === "number") && typeof v[1] === "number";
+}
+
+const MAX_DEPTH = 64;
+
+// Inputs holding prompt text on encoders and primitive/string nodes
+const TEXT_KEYS = ["text", "text_g", "text_l", "clip_l", "clip_g", "t5xxl", "string", "value", "prompt", "text_positive", "text_negative"];
+// Loader inputs naming a base model
+const CHECKPOINT_KEYS = ["ckpt_name", "unet_name", "model_name", "model_path"];
+
+const MODEL_LOADER_RE = /CheckpointLoader|UNETLoader|UnetLoader|DiffusersLoader|ModelLoader/i;
+const SAMPLER_RE = /KSampler|^SamplerCustom/;
+// KSamplerSelect and similar helpers match the name but take no latent
+const isSamplerNode = (n: ComfyNode) => SAMPLER_RE.test(n.class_type) && !!n.inputs && "latent_image" in n.inputs;
+
+/** Sampler-stage summary of an API-format graph; null when no sampler node exists. */
+export function summarizeComfyGraph(graph: ComfyGraph): ComfySummary | null {
+    const ids = Object.keys(graph).filter((id) => graph[id] && typeof graph[id].class_type === "string");
+    const samplerIds = ids.filter((id) => isSamplerNode(graph[id]));
+    if (!samplerIds.length) return null;
+
+    const node = (link: unknown): ComfyNode | undefined => isComfyLink(link) ? graph[String(link[0])] : undefined;
+    const inputsOf = (n: ComfyNode | undefined): Record<string, any> => (n && n.inputs) || {};
+
+    // Follow a scalar input through primitive nodes (seed/steps widgets converted to inputs)
+    const scalar = (v: unknown, depth = 0): any => {
+        if (!isComfyLink(v)) return v;
+        const n = node(v);
+        if (!n || depth > MAX_DEPTH) return undefined;
+        const ins = inputsOf(n);
+        for (const k of ["value", "seed", "noise_seed", "int", "float", "number", "string", "text"]) {
+            if (k in ins) return scalar(ins[k], depth + 1);
+        }
+        return undefined;
+    };
+    const num = (v: unknown): number | undefined => {
+        const s = scalar(v);
+        const n = typeof s === "string" && s.trim() ? Number(s) : s;
+        return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+    };
+    const str = (v: unknown): string | undefined => {
+        const s = scalar(v);
+        return typeof s === "string" && s ? s : undefined;
+    };
+
+    // Prompt text reachable upstream of a conditioning/string link
+    const resolveText = (link: unknown, seen: Record<string, boolean>, depth = 0): string[] => {
+        if (typeof link === "string") return link.trim() ? [link] : [];
+        if (!isComfyLink(link) || depth > MAX_DEPTH) return [];
+        const id = String(link[0]);
+        const n = graph[id];
+        if (!n || seen[id + ":" + link[1]]) return [];
+        seen[id + ":" + link[1]] = true;
+        const ins = inputsOf(n);
+        if (n.class_type === "ConditioningZeroOut") return [];
+
+        const texts: string[] = [];
+        for (const k of TEXT_KEYS) {
+            if (!(k in ins)) continue;
+            for (const t of resolveText(ins[k], seen, depth + 1)) if (texts.indexOf(t) < 0) texts.push(t);
+        }
+        if (texts.length) return texts;
+
+        // Nodes with positive/negative outputs (ControlNetApplyAdvanced, ...): output 0 = positive, 1 = negative
+        if (isComfyLink(ins.positive) && isComfyLink(ins.negative)) {
+            return resolveText(link[1] === 1 ? ins.negative : ins.positive, seen, depth + 1);
+        }
+
+        // Pass-through and combining nodes: Reroute, Conditioning(Combine|Concat|SetArea|...), string concat
+        const out: string[] = [];
+        for (const k of Object.keys(ins)) {
+            if (!/^(conditioning|string|text|input|any|clip_vision_output$)/i.test(k)) continue;
+            for (const t of resolveText(ins[k], seen, depth + 1)) if (out.indexOf(t) < 0) out.push(t);
+        }
+        return out;
+    };
+    const promptText = (link: unknown): string | undefined => {
+        const parts = resolveText(link, {});
+        return parts.length ? parts.join("\n") : undefined;
+    };
+
+    // Base model and LoRAs on the path upstream of a model input
+    const resolveModel = (link: unknown): { model?: string; loras: ComfyLora[] } => {
+        const loras: ComfyLora[] = [];
+        let model: string | undefined;
+        let cur = link;
+        const seen: Record<string, boolean> = {};
+        for (let depth = 0; isComfyLink(cur) && depth < MAX_DEPTH; depth++) {
+            const id = String(cur[0]);
+            if (seen[id]) break;
+            seen[id] = true;
+            const n = graph[id];
+            if (!n) break;
+            const ins = inputsOf(n);
+            const lora = loraOf(ins);
+            if (lora) loras.unshift(lora);
+            loras.unshift(...stackedLoras(ins));
+            const ckpt = CHECKPOINT_KEYS.map((k) => str(ins[k])).filter(Boolean)[0];
+            if (ckpt && MODEL_LOADER_RE.test(n.class_type)) { model = ckpt; break; }
+            cur = ins.model ?? ins.unet ?? ins.base_model;
+        }
+        return { model, loras };
+    };
+
+    // Latent source: empty latent size, upscale between stages, or another sampler's output
+    const resolveLatent = (link: unknown, stage: ComfySamplerStage) => {
+        let cur = link;
+        for (let depth = 0; isComfyLink(cur) && depth < MAX_DEPTH; depth++) {
+            const id = String(cur[0]);
+            const n = graph[id];
+            if (!n) return;
+            const ins = inputsOf(n);
+            if (isSamplerNode(n)) { stage.fromStage = id; return; }
+            if (/LatentUpscale/.test(n.class_type) && !stage.latentUpscale) {
+                const method = str(ins.upscale_method);
+                const by = num(ins.scale_by);
+                const w = num(ins.width), h = num(ins.height);
+                stage.latentUpscale = [method, by !== undefined ? `x${by}` : (w && h ? `${w}x${h}` : undefined)].filter(Boolean).join(" ");
+                if (w && h) { stage.width = w; stage.height = h; }
+            } else if (/EmptyLatent|Empty.*Latent/.test(n.class_type)) {
+                const w = num(ins.width), h = num(ins.height);
+                if (w && h && stage.width === undefined) { stage.width = w; stage.height = h; }
+                return;
+            }
+            cur = ins.samples ?? ins.latent ?? ins.latent_image ?? ins.pixels;
+        }
+    };
+
+    const stages: ComfySamplerStage[] = [];
+    for (const id of samplerIds) {
+        const n = graph[id];
+        const ins = inputsOf(n);
+        const stage: ComfySamplerStage = { id, classType: n.class_type, loras: [] };
+        if (n._meta?.title && n._meta.title !== n.class_type) stage.title = n._meta.title;
+
+        let positive = ins.positive, negative = ins.negative, modelLink = ins.model;
+        stage.seed = num(ins.seed ?? ins.noise_seed);
+        stage.steps = num(ins.steps);
+        stage.cfg = num(ins.cfg);
+        stage.sampler = str(ins.sampler_name);
+        stage.scheduler = str(ins.scheduler);
+        stage.denoise = num(ins.denoise);
+        stage.startStep = num(ins.start_at_step);
+        stage.endStep = num(ins.end_at_step);
+
+        // SamplerCustom(Advanced): settings live on the sampler/sigmas/noise/guider nodes
+        const samplerSel = inputsOf(node(ins.sampler));
+        if (stage.sampler === undefined) stage.sampler = str(samplerSel.sampler_name);
+        const sigmas = inputsOf(node(ins.sigmas));
+        if (stage.scheduler === undefined) stage.scheduler = str(sigmas.scheduler);
+        if (stage.steps === undefined) stage.steps = num(sigmas.steps);
+        if (stage.denoise === undefined) stage.denoise = num(sigmas.denoise);
+        if (stage.seed === undefined) stage.seed = num(inputsOf(node(ins.noise)).noise_seed);
+        const guider = inputsOf(node(ins.guider));
+        if (ins.guider !== undefined) {
+            positive = guider.positive ?? guider.conditioning;
+            negative = guider.negative;
+            modelLink = guider.model;
+            if (stage.cfg === undefined) stage.cfg = num(guider.cfg);
+        }
+        if (stage.scheduler === undefined && isComfyLink(ins.sigmas)) stage.scheduler = node(ins.sigmas)?.class_type;
+
+        stage.positive = promptText(positive);
+        stage.negative = promptText(negative);
+        const m = resolveModel(modelLink);
+        stage.model = m.model;
+        stage.loras = m.loras;
+        resolveLatent(ins.latent_image, stage);
+        stages.push(compact(stage));
+    }
+    orderStages(stages);
+
+    // Graph-wide resources
+    const checkpoints: string[] = [], vaes: string[] = [], upscalers: string[] = [];
+    const loras: ComfyLora[] = [];
+    const controlNets: ComfyControlNet[] = [];
+    const addUnique = (arr: string[], v?: string) => { if (v && arr.indexOf(v) < 0) arr.push(v); };
+    for (const id of ids) {
+        const n = graph[id];
+        const ins = inputsOf(n);
+        if (MODEL_LOADER_RE.test(n.class_type) && !/Upscale|ControlNet|CLIP|VAE/i.test(n.class_type)) {
+            addUnique(checkpoints, CHECKPOINT_KEYS.map((k) => str(ins[k])).filter(Boolean)[0]);
+        }
+        if (n.class_type === "VAELoader") addUnique(vaes, str(ins.vae_name));
+        if (/UpscaleModelLoader/.test(n.class_type)) addUnique(upscalers, str(ins.model_name));
+        const lora = loraOf(ins);
+        if (lora && !loras.some((l) => l.name === lora.name)) loras.push(lora);
+        for (const l of stackedLoras(ins)) if (!loras.some((x) => x.name === l.name)) loras.push(l);
+        if (/^ControlNetApply/.test(n.class_type) || (isComfyLink(ins.control_net) && "strength" in ins)) {
+            const cn: ComfyControlNet = {
+                name: str(inputsOf(node(ins.control_net)).control_net_name),
+                strength: num(ins.strength),
+                startPercent: num(ins.start_percent),
+                endPercent: num(ins.end_percent),
+                image: imageSource(ins.image),
+            };
+            controlNets.push(compact(cn));
+        }
+    }
+    return { stages, checkpoints, vaes, loras, upscalers, controlNets };
+
+    // File name of a LoadImage upstream of an image input, else the producing node's class
+    function imageSource(link: unknown): string | undefined {
+        let cur = link;
+        for (let depth = 0; isComfyLink(cur) && depth < MAX_DEPTH; depth++) {
+            const n = node(cur);
+            if (!n) return undefined;
+            const ins = inputsOf(n);
+            if (typeof ins.image === "string") return ins.image;
+            if (!isComfyLink(ins.image)) return n.class_type;
+            cur = ins.image;
+        }
+        return undefined;
+    }
+}
+
+// Drop undefined members so summaries serialize cleanly
+function compact<T extends object>(o: T): T {
+    for (const k of Object.keys(o)) if ((o as any)[k] === undefined) delete (o as any)[k];
+    return o;
+}
+
+// LoraLoader / LoraLoaderModelOnly and look-alikes
+function loraOf(ins: Record<string, any>): ComfyLora | null {
+    if (typeof ins.lora_name !== "string" || !ins.lora_name || ins.lora_name === "None") return null;
+    const l: ComfyLora = { name: ins.lora_name };
+    if (typeof ins.strength_model === "number") l.weight = ins.strength_model;
+    if (typeof ins.strength_clip === "number") l.clipWeight = ins.strength_clip;
+    return l;
+}
+
+// Stacked loaders (e.g. rgthree Power Lora Loader): lora_N = { on, lora, strength, strengthTwo }
+function stackedLoras(ins: Record<string, any>): ComfyLora[] {
+    const out: ComfyLora[] = [];
+    for (const k of Object.keys(ins)) {
+        const v = ins[k];
+        if (!/^lora_\d+$/.test(k) || !v || typeof v !== "object" || typeof v.lora !== "string") continue;
+        if (v.on === false || v.lora === "None") continue;
+        const l: ComfyLora = { name: v.lora };
+        if (typeof v.strength === "number") l.weight = v.strength;
+        if (typeof v.strengthTwo === "number") l.clipWeight = v.strengthTwo;
+        out.push(l);
+    }
+    return out;
+}
+
+// Base stages first: a stage comes after the stage it refines; ties keep numeric id order
+function orderStages(stages: ComfySamplerStage[]) {
+    const byId: Record<string, ComfySamplerStage> = {};
+    for (const s of stages) byId[s.id] = s;
+    const depthOf = (s: ComfySamplerStage): number => {
+        let d = 0;
+        let cur: ComfySamplerStage | undefined = s;
+        while (cur && cur.fromStage && byId[cur.fromStage] && d < stages.length) { d++; cur = byId[cur.fromStage]; }
+        return d;
+    };
+    const num = (id: string) => { const n = parseInt(id, 10); return Number.isFinite(n) ? n : 9007199254740991; };
+    stages.sort((a, b) => depthOf(a) - depthOf(b) || num(a.id) - num(b.id));
+}
+
+// ---- UI-format workflows ----
+// Saved by the editor as { nodes: [{ id, type, inputs, outputs, widgets_values, mode, title }], links: [...] }.
+// Inputs hold link ids, widget values are positional, and links are
+// [id, originId, originSlot, targetId, targetSlot, type] (or objects with those names).
+
+/** Widget names, in `widgets_values` order, for core nodes. Seed and primitive "control_after_generate" values are skipped separately. */
+const UI_WIDGETS: Record<string, string[]> = {
+    KSampler: ["seed", "steps", "cfg", "sampler_name", "scheduler", "denoise"],
+    KSamplerAdvanced: ["add_noise", "noise_seed", "steps", "cfg", "sampler_name", "scheduler", "start_at_step", "end_at_step", "return_with_leftover_noise"],
+    SamplerCustom: ["add_noise", "noise_seed", "cfg"],
+    KSamplerSelect: ["sampler_name"],
+    BasicScheduler: ["scheduler", "steps", "denoise"],
+    RandomNoise: ["noise_seed"],
+    CFGGuider: ["cfg"],
+    FluxGuidance: ["guidance"],
+    CheckpointLoaderSimple: ["ckpt_name"],
+    CheckpointLoader: ["config_name", "ckpt_name"],
+    UNETLoader: ["unet_name", "weight_dtype"],
+    VAELoader: ["vae_name"],
+    CLIPSetLastLayer: ["stop_at_clip_layer"],
+    CLIPTextEncode: ["text"],
+    CLIPTextEncodeSDXL: ["width", "height", "crop_w", "crop_h", "target_width", "target_height", "text_g", "text_l"],
+    CLIPTextEncodeSDXLRefiner: ["ascore", "width", "height", "text"],
+    CLIPTextEncodeFlux: ["clip_l", "t5xxl", "guidance"],
+    LoraLoader: ["lora_name", "strength_model", "strength_clip"],
+    LoraLoaderModelOnly: ["lora_name", "strength_model"],
+    EmptyLatentImage: ["width", "height", "batch_size"],
+    EmptySD3LatentImage: ["width", "height", "batch_size"],
+    LatentUpscale: ["upscale_method", "width", "height", "crop"],
+    LatentUpscaleBy: ["upscale_method", "scale_by"],
+    UpscaleModelLoader: ["model_name"],
+    ControlNetLoader: ["control_net_name"],
+    DiffControlNetLoader: ["control_net_name"],
+    ControlNetApply: ["strength"],
+    ControlNetApplyAdvanced: ["strength", "start_percent", "end_percent"],
+    ConditioningSetArea: ["width", "height", "x", "y", "strength"],
+    ConditioningSetTimestepRange: ["start", "end"],
+    LoadImage: ["image", "upload"],
+    SaveImage: ["filename_prefix"],
+    PrimitiveString: ["value"],
+    PrimitiveStringMultiline: ["value"],
+    PrimitiveInt: ["value"],
+    PrimitiveFloat: ["value"],
+    StringConcatenate: ["string_a", "string_b", "delimiter"],
+    PrimitiveNode: ["value"],
+    Note: ["text"],
+    MarkdownNote: ["text"],
+};
+const SEED_CONTROL_VALUES = ["fixed", "increment", "decrement", "randomize"];
+// Node modes: 2 = muted (never runs), 4 = bypassed (inputs pass straight through)
+const MODE_MUTED = 2, MODE_BYPASS = 4;
+
+type UiLink = { origin: string; slot: number; type?: string };
+
+// Editor-only nodes: never sent to the server and absent from /object_info
+const VIRTUAL_NODE_TYPES: Record<string, true> = { Reroute: true, PrimitiveNode: true, Note: true, MarkdownNote: true };
+
+/** True for an editor-saved workflow (`nodes` array of `{ id, type }`). */
+export function isComfyUiWorkflow(wf: any): boolean {
+    return !!wf && typeof wf === "object" && Array.isArray(wf.nodes) &&
+        wf.nodes.some((n: any) => n && n.id !== undefined && typeof n.type === "string");
+}
+
+/**
+ * Rebuild an API-format graph from an editor workflow: link ids become
+ * `[originId, slot]`, widget values get their names, and virtual nodes
+ * (Reroute, PrimitiveNode) and bypassed nodes are resolved away.
+ */
+export function uiWorkflowToApiGraph(wf: any): ComfyGraph {
+    const nodes: Record<string, any> = {};
+    for (const n of wf.nodes) if (n && n.id !== undefined) nodes[String(n.id)] = n;
+    const links = readUiLinks(wf);
+
+    // Follow a link id to a real producer: a link, a literal (PrimitiveNode), or nothing
+    const resolveLink = (linkId: unknown, depth = 0): ComfyLink | { value: unknown } | null => {
+        const l = links[String(linkId)];
+        if (!l || depth > MAX_DEPTH) return null;
+        const src = nodes[l.origin];
+        if (!src) return null;
+        if (src.type === "Reroute") {
+            const input = (src.inputs || [])[0];
+            return input && input.link != null ? resolveLink(input.link, depth + 1) : null;
+        }
+        if (src.type === "PrimitiveNode") {
+            return Array.isArray(src.widgets_values) ? { value: src.widgets_values[0] } : null;
+        }
+        if (src.mode === MODE_BYPASS) {
+            // Pass through the first input of the same type as the bypassed output
+            const outType = l.type ?? src.outputs?.[l.slot]?.type;
+            const input = (src.inputs || []).find((i: any) => i && i.link != null && (!outType || i.type === outType));
+            return input ? resolveLink(input.link, depth + 1) : null;
+        }
+        if (src.mode === MODE_MUTED) return null;
+        return [l.origin, l.slot];
+    };
+
+    const graph: ComfyGraph = {};
+    for (const id of Object.keys(nodes)) {
+        const n = nodes[id];
+        if (VIRTUAL_NODE_TYPES[n.type]) continue;
+        if (n.mode === MODE_MUTED || n.mode === MODE_BYPASS) continue;
+        const inputs: Record<string, any> = {};
+        assignWidgets(n, inputs);
+        for (const inp of Array.isArray(n.inputs) ? n.inputs : []) {
+            if (!inp || typeof inp.name !== "string" || inp.link == null) continue;
+            const r = resolveLink(inp.link);
+            if (!r) continue;
+            inputs[inp.name] = isComfyLink(r) ? r : r.value;
+        }
+        const node: ComfyNode = { class_type: n.type, inputs };
+        if (typeof n.title === "string" && n.title) node._meta = { title: n.title };
+        graph[id] = node;
+    }
+    return graph;
+}
+
+// Link id → origin; links are saved as arrays or, by newer editors, as objects
+function readUiLinks(wf: any): Record<string, UiLink> {
+    const links: Record<string, UiLink> = {};
+    for (const l of Array.isArray(wf.links) ? wf.links : []) {
+        if (Array.isArray(l) && l.length >= 5) links[String(l[0])] = { origin: String(l[1]), slot: l[2], type: l[5] };
+        else if (l && typeof l === "object" && l.id !== undefined) links[String(l.id)] = { origin: String(l.origin_id), slot: l.origin_slot, type: l.type };
+    }
+    return links;
+}
+
+// Name positional widget values: known core tables first, else the node's widget inputs (newer editors list them)
+function assignWidgets(n: any, inputs: Record<string, any>) {
+    const values = n.widgets_values;
+    if (values && typeof values === "object" && !Array.isArray(values)) {
+        // Some custom nodes save widgets as a name → value object
+        for (const k of Object.keys(values)) inputs[k] = values[k];
+        return;
+    }
+    if (!Array.isArray(values)) return;
+    const names = UI_WIDGETS[n.type] ??
+        (Array.isArray(n.inputs) ? n.inputs.filter((i: any) => i && i.widget && i.widget.name).map((i: any) => i.widget.name) : []);
+    let vi = 0;
+    for (let ni = 0; ni < names.length && vi < values.length; ni++) {
+        const name = names[ni];
+        inputs[name] = values[vi++];
+        if ((/seed/.test(name) || n.type === "PrimitiveNode") && SEED_CONTROL_VALUES.indexOf(values[vi]) >= 0) vi++;
+    }
+    // Values without a known name keep their position
+    for (; vi < values.length; vi++) inputs[`widget_${vi}`] = values[vi];
+}
+
+/** Flatten a summary into the normalized field names shared with the A1111/generator adapters. */
+export function comfySummaryToFields(s: ComfySummary): Record<string, unknown> {
+    const out: Record<string, unknown> = { generator: "ComfyUI" };
+    // Prompts and sampler settings come from the first stage that has them
+    const first = <K extends keyof ComfySamplerStage>(k: K): ComfySamplerStage[K] | undefined => {
+        for (const st of s.stages) if (st[k] !== undefined) return st[k];
+        return undefined;
+    };
+    const base = s.stages[0];
+    const put = (k: string, v: unknown) => { if (v !== undefined && v !== "") out[k] = v; };
+    put("seed", base.seed ?? first("seed"));
+    put("steps", base.steps);
+    put("cfg_scale", base.cfg);
+    put("sampler", base.sampler);
+    put("scheduler", base.scheduler);
+    put("denoise", base.denoise);
+    put("prompt", first("positive"));
+    put("negative_prompt", first("negative"));
+    put("model", base.model ?? s.checkpoints[0]);
+    const w = first("width"), h = first("height");
+    if (w !== undefined && h !== undefined) { out["width"] = w; out["height"] = h; out["size"] = `${w}x${h}`; }
+    if (s.vaes.length) out["vae"] = s.vaes.join(", ");
+    if (s.loras.length) out["loras"] = s.loras;
+    if (s.upscalers.length) out["upscaler"] = s.upscalers.join(", ");
+    if (s.controlNets.length) out["controlnets"] = s.controlNets;
+    if (s.checkpoints.length > 1) out["checkpoints"] = s.checkpoints;
+    if (s.stages.length > 1) out["sampler_stages"] = s.stages;
+    return out;
+}
+
+// ---- Graph layout ---- (positions for the SVG graph view)
+
+export type GraphLayoutNode = {
+    id: string;
+    type: string;
+    title: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    color?: string;
+    inputSlots: string[];
+    outputSlots: string[];
+    /** Inputs shown in the inspector: widget values and `[sourceId, slot]` links */
+    inputs: Record<string, unknown>;
+};
+export type GraphLayoutEdge = { from: string; fromSlot: number; to: string; toSlot: number; type?: string };
+export type GraphLayoutGroup = { title: string; x: number; y: number; w: number; h: number; color?: string };
+export type GraphLayout = { nodes: GraphLayoutNode[]; edges: GraphLayoutEdge[]; groups: GraphLayoutGroup[] };
+
+export const GRAPH_TITLE_HEIGHT = 26;
+export const GRAPH_SLOT_HEIGHT = 20;
+const AUTO_NODE_WIDTH = 220;
+const AUTO_COLUMN_GAP = 80;
+const AUTO_ROW_GAP = 30;
+
+/**
+ * Layout for the graph view: editor positions from `workflow_json`, or an
+ * automatic left-to-right layering of an API-only `prompt_json`.
+ */
+export function buildGraphLayout(fields: Record<string, unknown>): GraphLayout | null {
+    const wf = fields["workflow_json"] as any;
+    if (isComfyUiWorkflow(wf)) {
+        try { return layoutFromWorkflow(wf); } catch { /* fall back to the prompt graph */ }
+    }
+    const prompt = fields["prompt_json"] as any;
+    if (prompt && typeof prompt === "object" && Object.keys(prompt).some((k) => prompt[k] && typeof prompt[k].class_type === "string")) {
+        return layoutFromApiGraph(prompt as ComfyGraph);
+    }
+    return null;
+}
+
+// Editor positions may be saved as [x, y] or {"0": x, "1": y}
+function pair(v: any, fallback: [number, number]): [number, number] {
+    if (!v || typeof v !== "object") return fallback;
+    const a = Number(v[0]), b = Number(v[1]);
+    return [Number.isFinite(a) ? a : fallback[0], Number.isFinite(b) ? b : fallback[1]];
+}
+
+function layoutFromWorkflow(wf: any): GraphLayout {
+    const api = uiWorkflowToApiGraph(wf);
+    const nodes: GraphLayoutNode[] = [];
+    for (const n of wf.nodes) {
+        if (!n || n.id === undefined || typeof n.type !== "string") continue;
+        const id = String(n.id);
+        const [x, y] = pair(n.pos, [0, 0]);
+        const [w, h] = pair(n.size, [200, 60]);
+        const inputSlots = (Array.isArray(n.inputs) ? n.inputs : []).filter((i: any) => i && (!i.widget || i.link != null)).map((i: any) => String(i.label ?? i.name ?? ""));
+        const outputSlots = (Array.isArray(n.outputs) ? n.outputs : []).map((o: any) => String(o?.label ?? o?.name ?? o?.type ?? ""));
+        const inputs: Record<string, unknown> = api[id]?.inputs ?? (Array.isArray(n.widgets_values) ? { ...n.widgets_values } : {});
+        // The editor draws the title bar above `pos`
+        const collapsed = !!(n.flags && n.flags.collapsed);
+        nodes.push({
+            id, type: n.type, title: typeof n.title === "string" && n.title ? n.title : n.type,
+            x, y: y - GRAPH_TITLE_HEIGHT, w: collapsed ? Math.min(w, 160) : w, h: collapsed ? GRAPH_TITLE_HEIGHT : h + GRAPH_TITLE_HEIGHT,
+            color: typeof n.bgcolor === "string" ? n.bgcolor : undefined,
+            inputSlots, outputSlots, inputs,
+        });
+    }
+    // Slot indexes in links count every input, including widget inputs; map them onto drawn slots
+    const drawnSlot: Record<string, number[]> = {};
+    for (const n of wf.nodes) {
+        if (!n || !Array.isArray(n.inputs)) continue;
+        const map: number[] = [];
+        let k = 0;
+        n.inputs.forEach((i: any, idx: number) => { map[idx] = i && (!i.widget || i.link != null) ? k++ : -1; });
+        drawnSlot[String(n.id)] = map;
+    }
+    const edges: GraphLayoutEdge[] = [];
+    for (const l of Array.isArray(wf.links) ? wf.links : []) {
+        const e = Array.isArray(l) ? { from: l[1], fromSlot: l[2], to: l[3], toSlot: l[4], type: l[5] }
+            : l && typeof l === "object" ? { from: l.origin_id, fromSlot: l.origin_slot, to: l.target_id, toSlot: l.target_slot, type: l.type } : null;
+        if (!e || e.from === undefined || e.to === undefined) continue;
+        const to = String(e.to);
+        const slot = drawnSlot[to]?.[e.toSlot];
+        edges.push({ from: String(e.from), fromSlot: Number(e.fromSlot) || 0, to, toSlot: slot !== undefined && slot >= 0 ? slot : Number(e.toSlot) || 0, type: e.type });
+    }
+    const groups: GraphLayoutGroup[] = [];
+    for (const g of Array.isArray(wf.groups) ? wf.groups : []) {
+        const b = g && (g.bounding ?? g.bounds);
+        if (!Array.isArray(b) || b.length < 4) continue;
+        groups.push({ title: String(g.title ?? ""), x: b[0], y: b[1], w: b[2], h: b[3], color: typeof g.color === "string" ? g.color : undefined });
+    }
+    return { nodes, edges, groups };
+}
+
+// Columns by longest path from the sources; rows in node-id order within a column
+function layoutFromApiGraph(graph: ComfyGraph): GraphLayout {
+    const ids = Object.keys(graph).filter((id) => graph[id] && typeof graph[id].class_type === "string");
+    const edges: GraphLayoutEdge[] = [];
+    const inputSlots: Record<string, string[]> = {};
+    const maxOut: Record<string, number> = {};
+    for (const id of ids) {
+        const ins = graph[id].inputs || {};
+        const slots: string[] = [];
+        for (const name of Object.keys(ins)) {
+            const v = ins[name];
+            if (!isComfyLink(v) || !graph[String(v[0])]) continue;
+            edges.push({ from: String(v[0]), fromSlot: v[1], to: id, toSlot: slots.length });
+            slots.push(name);
+            maxOut[String(v[0])] = Math.max(maxOut[String(v[0])] ?? 0, v[1] + 1);
+        }
+        inputSlots[id] = slots;
+    }
+
+    const depth: Record<string, number> = {};
+    const visiting: Record<string, boolean> = {};
+    const depthOf = (id: string): number => {
+        if (depth[id] !== undefined) return depth[id];
+        if (visiting[id]) return 0;
+        visiting[id] = true;
+        let d = 0;
+        for (const e of edges) if (e.to === id) d = Math.max(d, depthOf(e.from) + 1);
+        visiting[id] = false;
+        return (depth[id] = d);
+    };
+    const byNum = (a: string, b: string) => (parseInt(a, 10) || 0) - (parseInt(b, 10) || 0) || (a < b ? -1 : a > b ? 1 : 0);
+    const columns: string[][] = [];
+    for (const id of ids.slice().sort(byNum)) {
+        const d = depthOf(id);
+        (columns[d] ??= []).push(id);
+    }
+
+    const nodes: GraphLayoutNode[] = [];
+    columns.forEach((col, ci) => {
+        let y = 0;
+        for (const id of col || []) {
+            const n = graph[id];
+            const outs: string[] = [];
+            for (let i = 0; i < (maxOut[id] ?? 0); i++) outs.push(String(i));
+            const literal = Object.keys(n.inputs || {}).filter((k) => !isComfyLink((n.inputs || {})[k])).length;
+            const rows = Math.max(inputSlots[id].length, outs.length) + Math.min(literal, 4);
+            const h = GRAPH_TITLE_HEIGHT + 10 + Math.max(1, rows) * GRAPH_SLOT_HEIGHT;
+            nodes.push({
+                id, type: n.class_type, title: n._meta?.title || n.class_type,
+                x: ci * (AUTO_NODE_WIDTH + AUTO_COLUMN_GAP), y, w: AUTO_NODE_WIDTH, h,
+                inputSlots: inputSlots[id], outputSlots: outs, inputs: n.inputs || {},
+            });
+            y += h + AUTO_ROW_GAP;
+        }
+    });
+    return { nodes, edges, groups: [] };
+}
+
+// ---- Node list ---- (node inspector)
+
+export type ComfyNodeEntry = {
+    id: string;
+    classType: string;
+    title?: string;
+    /** Editor state of a workflow node that does not run as saved */
+    mode?: "muted" | "bypassed" | "virtual";
+    inputs: Record<string, unknown>;
+};
+
+const byNodeId = (a: string, b: string) => (parseInt(a, 10) || 0) - (parseInt(b, 10) || 0) || (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Every node of the API prompt graph. Workflow-only images list the editor
+ * nodes directly, so muted, bypassed and virtual (Reroute, PrimitiveNode,
+ * Note) nodes that the converted graph drops are still shown, tagged with
+ * their mode.
+ */
+export function listComfyNodes(fields: Record<string, unknown>): ComfyNodeEntry[] {
+    const prompt = fields["prompt_json"] as any;
+    if (prompt && typeof prompt === "object" && Object.keys(prompt).some((k) => prompt[k] && typeof prompt[k].class_type === "string")) {
+        const g = prompt as ComfyGraph;
+        return Object.keys(g)
+            .filter((id) => g[id] && typeof g[id].class_type === "string")
+            .sort(byNodeId)
+            .map((id) => {
+                const n = g[id];
+                const e: ComfyNodeEntry = { id, classType: n.class_type, inputs: n.inputs || {} };
+                if (n._meta?.title && n._meta.title !== n.class_type) e.title = n._meta.title;
+                return e;
+            });
+    }
+    const wf = fields["workflow_json"] as any;
+    if (!isComfyUiWorkflow(wf)) return [];
+    let api: ComfyGraph = {};
+    try { api = uiWorkflowToApiGraph(wf); } catch { /* list the saved inputs only */ }
+    const links = readUiLinks(wf);
+    const out: ComfyNodeEntry[] = [];
+    for (const n of wf.nodes) {
+        if (!n || n.id === undefined || typeof n.type !== "string") continue;
+        const id = String(n.id);
+        const e: ComfyNodeEntry = { id, classType: n.type, inputs: api[id]?.inputs ?? savedInputs(n, links) };
+        if (typeof n.title === "string" && n.title && n.title !== n.type) e.title = n.title;
+        if (VIRTUAL_NODE_TYPES[n.type]) e.mode = "virtual";
+        else if (n.mode === MODE_MUTED) e.mode = "muted";
+        else if (n.mode === MODE_BYPASS) e.mode = "bypassed";
+        out.push(e);
+    }
+    return out.sort((a, b) => byNodeId(a.id, b.id));
+}
+
+// Inputs of a node the converted graph leaves out: named widgets plus unresolved `[originId, slot]` links
+function savedInputs(n: any, links: Record<string, UiLink>): Record<string, unknown> {
+    const inputs: Record<string, unknown> = {};
+    assignWidgets(n, inputs);
+    for (const inp of Array.isArray(n.inputs) ? n.inputs : []) {
+        const l = inp && inp.link != null ? links[String(inp.link)] : undefined;
+        if (l) inputs[inp.name || "input"] = [l.origin, l.slot];
+    }
+    return inputs;
+}
+
+// ---- Missing custom nodes ---- (against an /object_info export)
+
+export type ComfyMissingPack = {
+    /** Node-pack hint from the workflow (`cnr_id`, else `aux_id`); null when the image has none */
+    pack: string | null;
+    /** Pack version recorded with the nodes, when present */
+    version?: string;
+    classTypes: string[];
+};
+
+type UsedNodeType = { pack: string | null; version?: string };
+
+/** Class types the image uses that /object_info could list (editor-only nodes and subgraph instances excluded), sorted. */
+export function listComfyNodeTypes(fields: Record<string, unknown>): string[] {
+    return Object.keys(collectNodeTypes(fields)).sort();
+}
+
+/**
+ * Class types used by the image that are not keys of `installed` (ComfyUI's
+ * `/object_info` response), grouped by the node-pack hints the editor stores
+ * in node properties. Subgraph instances and editor-only nodes are skipped.
+ */
+export function findMissingComfyNodes(fields: Record<string, unknown>, installed: Record<string, unknown>): ComfyMissingPack[] {
+    const used = collectNodeTypes(fields);
+    const byPack: Record<string, ComfyMissingPack> = {};
+    const out: ComfyMissingPack[] = [];
+    for (const type of Object.keys(used).sort()) {
+        if (Object.prototype.hasOwnProperty.call(installed, type)) continue;
+        const { pack, version } = used[type];
+        const key = pack ?? "";
+        let group = byPack[key];
+        if (!group) {
+            group = byPack[key] = { pack, classTypes: [] };
+            if (version) group.version = version;
+            out.push(group);
+        }
+        group.classTypes.push(type);
+    }
+    // Known packs first, unhinted nodes last
+    return out.sort((a, b) => (a.pack === null ? 1 : 0) - (b.pack === null ? 1 : 0) || String(a.pack).localeCompare(String(b.pack)));
+}
+
+// class_type → pack hint (first hint seen wins) for every node of the workflow and prompt
+function collectNodeTypes(fields: Record<string, unknown>): Record<string, UsedNodeType> {
+    const used: Record<string, UsedNodeType> = {};
+    const note = (type: unknown, props?: any) => {
+        if (typeof type !== "string" || !type || VIRTUAL_NODE_TYPES[type]) return;
+        const pack = typeof props?.cnr_id === "string" && props.cnr_id ? props.cnr_id
+            : typeof props?.aux_id === "string" && props.aux_id ? props.aux_id : null;
+        const prev = used[type];
+        if (prev && (prev.pack || !pack)) return;
+        used[type] = { pack, version: typeof props?.ver === "string" && props.ver ? props.ver : undefined };
+    };
+
+    const wf = fields["workflow_json"] as any;
+    if (isComfyUiWorkflow(wf)) {
+        const subgraphs: any[] = Array.isArray(wf.definitions?.subgraphs) ? wf.definitions.subgraphs : [];
+        const subgraphIds: Record<string, true> = {};
+        for (const sg of subgraphs) if (sg && typeof sg.id === "string") subgraphIds[sg.id] = true;
+        const lists: any[][] = [wf.nodes, ...subgraphs.map((sg) => (Array.isArray(sg?.nodes) ? sg.nodes : []))];
+        for (const list of lists) {
+            for (const n of list) {
+                if (!n || subgraphIds[n.type]) continue;
+                note(n.type, n.properties);
+            }
+        }
+    }
+    const prompt = fields["prompt_json"] as any;
+    if (prompt && typeof prompt === "object") {
+        for (const id of Object.keys(prompt)) note(prompt[id]?.class_type);
+    }
+    return used;
+}
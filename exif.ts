@@ -0,0 +1,379 @@
+/**
+ * Generic TIFF/EXIF tag decoding for photographic metadata.
+ *
+ * Input is an APP1-style EXIF payload (`Exif\0\0` + TIFF header), as used by
+ * the JPEG/WebP readers in parser.ts. All TIFF value types are decoded;
+ * offsets are resolved relative to the TIFF header.
+ */
+export type ExifValue = number | number[] | string | Uint8Array;
+export type ExifEntry = { tag: number; type: number; count: number; value: ExifValue };
+export type ExifIfd = Record<number, ExifEntry>;
+export type ExifData = {
+    ifd0: ExifIfd;
+    exif: ExifIfd;
+    gps: ExifIfd;
+    littleEndian: boolean;
+};
+
+export type CameraInfo = {
+    make?: string;
+    model?: string;
+    lensMake?: string;
+    lensModel?: string;
+    lensSpecification?: number[];
+    bodySerialNumber?: string;
+    software?: string;
+    artist?: string;
+    copyright?: string;
+    dateTime?: string;
+    dateTimeOriginal?: string;
+    dateTimeDigitized?: string;
+    offsetTime?: string;
+    offsetTimeOriginal?: string;
+    offsetTimeDigitized?: string;
+    subSecTimeOriginal?: string;
+    /** Seconds */
+    exposureTime?: number;
+    fNumber?: number;
+    iso?: number;
+    /** Millimetres */
+    focalLength?: number;
+    focalLength35mm?: number;
+    /** EV */
+    exposureBias?: number;
+    exposureProgram?: string;
+    exposureMode?: string;
+    meteringMode?: string;
+    flash?: string;
+    flashFired?: boolean;
+    whiteBalance?: string;
+    sceneCaptureType?: string;
+    digitalZoomRatio?: number;
+    orientation?: number;
+    orientationLabel?: string;
+    colorSpace?: string;
+    pixelWidth?: number;
+    pixelHeight?: number;
+};
+
+export type GpsInfo = {
+    /** Decimal degrees, negative for south */
+    latitude?: number;
+    /** Decimal degrees, negative for west */
+    longitude?: number;
+    /** Metres, negative below sea level */
+    altitude?: number;
+    /** UTC, ISO 8601 when both date and time stamps are present */
+    timestamp?: string;
+    /** Degrees */
+    direction?: number;
+    directionRef?: "true" | "magnetic";
+    mapDatum?: string;
+};
+
+// Byte size per TIFF type: BYTE, ASCII, SHORT, LONG, RATIONAL, SBYTE, UNDEFINED, SSHORT, SLONG, SRATIONAL, FLOAT, DOUBLE
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+export const TAG_EXIF_IFD = 0x8769;
+export const TAG_GPS_IFD = 0x8825;
+
+/** Tag names for IFD0 and the Exif sub-IFD (used for display and debugging). */
+export const EXIF_TAG_NAMES: Record<number, string> = {
+    0x010e: "ImageDescription",
+    0x010f: "Make",
+    0x0110: "Model",
+    0x0112: "Orientation",
+    0x011a: "XResolution",
+    0x011b: "YResolution",
+    0x0128: "ResolutionUnit",
+    0x0131: "Software",
+    0x0132: "DateTime",
+    0x013b: "Artist",
+    0x8298: "Copyright",
+    0x8769: "ExifIFDPointer",
+    0x8825: "GPSInfoIFDPointer",
+    0x829a: "ExposureTime",
+    0x829d: "FNumber",
+    0x8822: "ExposureProgram",
+    0x8827: "ISOSpeedRatings",
+    0x9000: "ExifVersion",
+    0x9003: "DateTimeOriginal",
+    0x9004: "DateTimeDigitized",
+    0x9010: "OffsetTime",
+    0x9011: "OffsetTimeOriginal",
+    0x9012: "OffsetTimeDigitized",
+    0x9201: "ShutterSpeedValue",
+    0x9202: "ApertureValue",
+    0x9204: "ExposureBiasValue",
+    0x9205: "MaxApertureValue",
+    0x9207: "MeteringMode",
+    0x9208: "LightSource",
+    0x9209: "Flash",
+    0x920a: "FocalLength",
+    0x9286: "UserComment",
+    0x9290: "SubSecTime",
+    0x9291: "SubSecTimeOriginal",
+    0x9292: "SubSecTimeDigitized",
+    0x9c9b: "XPTitle",
+    0x9c9c: "XPComment",
+    0xa001: "ColorSpace",
+    0xa002: "PixelXDimension",
+    0xa003: "PixelYDimension",
+    0xa402: "ExposureMode",
+    0xa403: "WhiteBalance",
+    0xa404: "DigitalZoomRatio",
+    0xa405: "FocalLengthIn35mmFilm",
+    0xa406: "SceneCaptureType",
+    0xa431: "BodySerialNumber",
+    0xa432: "LensSpecification",
+    0xa433: "LensMake",
+    0xa434: "LensModel",
+};
+
+const ORIENTATION_LABELS: Record<number, string> = {
+    1: "Normal",
+    2: "Mirrored horizontal",
+    3: "Rotated 180°",
+    4: "Mirrored vertical",
+    5: "Mirrored horizontal, rotated 270° CW",
+    6: "Rotated 90° CW",
+    7: "Mirrored horizontal, rotated 90° CW",
+    8: "Rotated 270° CW",
+};
+const EXPOSURE_PROGRAM_LABELS: Record<number, string> = {
+    0: "Not defined", 1: "Manual", 2: "Normal program", 3: "Aperture priority", 4: "Shutter priority",
+    5: "Creative program", 6: "Action program", 7: "Portrait mode", 8: "Landscape mode",
+};
+const METERING_MODE_LABELS: Record<number, string> = {
+    0: "Unknown", 1: "Average", 2: "Center-weighted average", 3: "Spot", 4: "Multi-spot", 5: "Pattern", 6: "Partial", 255: "Other",
+};
+const EXPOSURE_MODE_LABELS: Record<number, string> = { 0: "Auto", 1: "Manual", 2: "Auto bracket" };
+const WHITE_BALANCE_LABELS: Record<number, string> = { 0: "Auto", 1: "Manual" };
+const SCENE_CAPTURE_LABELS: Record<number, string> = { 0: "Standard", 1: "Landscape", 2: "Portrait", 3: "Night scene" };
+const COLOR_SPACE_LABELS: Record<number, string> = { 1: "sRGB", 2: "Adobe RGB", 0xffff: "Uncalibrated" };
+
+/** Read IFD0, the Exif sub-IFD and the GPS IFD from an `Exif\0\0`-prefixed payload. */
+export function readExif(exif: Uint8Array): ExifData | null {
+    const base = 6;
+    if (exif.length < base + 8) return null;
+    if (String.fromCharCode(exif[0], exif[1], exif[2], exif[3]) !== "Exif") return null;
+    const data = exif;
+    const isLE = data[base] === 0x49 && data[base + 1] === 0x49; // "II"
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const u16 = (o: number) => dv.getUint16(o, isLE);
+    const u32 = (o: number) => dv.getUint32(o, isLE);
+    if (u16(base + 2) !== 42) return null;
+
+    const readValue = (type: number, count: number, at: number): ExifValue => {
+        if (type === 2) {
+            let end = at + count;
+            while (end > at && data[end - 1] === 0) end--;
+            return decodeAscii(data.subarray(at, end));
+        }
+        if (type === 7 || (type === 1 && count > 4)) return data.subarray(at, at + count);
+        const vals: number[] = [];
+        const size = TYPE_SIZES[type];
+        for (let i = 0; i < count; i++) {
+            const o = at + i * size;
+            switch (type) {
+                case 1: vals.push(data[o]); break;
+                case 6: vals.push(dv.getInt8(o)); break;
+                case 3: vals.push(u16(o)); break;
+                case 8: vals.push(dv.getInt16(o, isLE)); break;
+                case 4: vals.push(u32(o)); break;
+                case 9: vals.push(dv.getInt32(o, isLE)); break;
+                case 5: { const d = u32(o + 4); vals.push(d ? u32(o) / d : 0); break; }
+                case 10: { const d = dv.getInt32(o + 4, isLE); vals.push(d ? dv.getInt32(o, isLE) / d : 0); break; }
+                case 11: vals.push(dv.getFloat32(o, isLE)); break;
+                case 12: vals.push(dv.getFloat64(o, isLE)); break;
+            }
+        }
+        return count === 1 ? vals[0] : vals;
+    };
+
+    const readIfd = (off: number): ExifIfd => {
+        const tags: ExifIfd = {};
+        if (off <= base || off + 2 > data.length) return tags;
+        const count = u16(off);
+        for (let i = 0; i < count; i++) {
+            const e = off + 2 + i * 12;
+            if (e + 12 > data.length) break;
+            const tag = u16(e);
+            const type = u16(e + 2);
+            const cnt = u32(e + 4);
+            const size = TYPE_SIZES[type];
+            if (!size) continue;
+            const total = size * cnt;
+            const at = total <= 4 ? e + 8 : base + u32(e + 8);
+            if (at + total > data.length) continue;
+            try { tags[tag] = { tag, type, count: cnt, value: readValue(type, cnt, at) }; } catch { /* skip malformed entry */ }
+        }
+        return tags;
+    };
+
+    const ifd0 = readIfd(base + u32(base + 4));
+    const ptr = (tags: ExifIfd, tag: number) => {
+        const v = tags[tag]?.value;
+        return typeof v === "number" ? base + v : 0;
+    };
+    const exifIfd = readIfd(ptr(ifd0, TAG_EXIF_IFD));
+    const gps = readIfd(ptr(ifd0, TAG_GPS_IFD));
+    return { ifd0, exif: exifIfd, gps, littleEndian: isLE };
+}
+
+function decodeAscii(u: Uint8Array): string {
+    try {
+        const s = new TextDecoder("utf-8").decode(u);
+        if (!s.includes("�")) return s;
+    } catch { /* fall through */ }
+    let s = ""; for (let i = 0; i < u.length; i++) s += String.fromCharCode(u[i]);
+    return s;
+}
+
+function describeFlash(v: number): string {
+    const parts: string[] = [v & 0x1 ? "Fired" : "Did not fire"];
+    const mode = (v >> 3) & 0x3;
+    if (mode === 1) parts.push("compulsory");
+    else if (mode === 2) parts.push("suppressed");
+    else if (mode === 3) parts.push("auto");
+    const ret = (v >> 1) & 0x3;
+    if (ret === 2) parts.push("return not detected");
+    else if (ret === 3) parts.push("return detected");
+    if (v & 0x40) parts.push("red-eye reduction");
+    if (v & 0x20) return "No flash function";
+    return parts.join(", ");
+}
+
+/** Build the photographic summary from decoded IFDs. Returns null when nothing useful is present. */
+export function extractCameraInfo(d: ExifData): CameraInfo | null {
+    const out: CameraInfo = {};
+    const str = (ifd: ExifIfd, tag: number): string | undefined => {
+        const v = ifd[tag]?.value;
+        if (typeof v !== "string") return undefined;
+        const t = v.trim();
+        return t ? t : undefined;
+    };
+    const num = (ifd: ExifIfd, tag: number): number | undefined => {
+        const v = ifd[tag]?.value;
+        if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+        if (Array.isArray(v) && typeof v[0] === "number") return v[0];
+        return undefined;
+    };
+    const label = (ifd: ExifIfd, tag: number, labels: Record<number, string>): string | undefined => {
+        const n = num(ifd, tag);
+        return n === undefined ? undefined : (labels[n] ?? String(n));
+    };
+    const { ifd0, exif } = d;
+
+    // ComfyUI's SaveAnimatedWEBP stores graphs in Make/Model; those are not camera names
+    const make = str(ifd0, 0x010f);
+    const model = str(ifd0, 0x0110);
+    const isGraph = (s?: string) => !!s && /^(prompt|workflow):/i.test(s);
+    if (make && !isGraph(make)) out.make = make;
+    if (model && !isGraph(model)) out.model = model;
+    out.software = str(ifd0, 0x0131);
+    out.artist = str(ifd0, 0x013b);
+    out.copyright = str(ifd0, 0x8298);
+    out.dateTime = str(ifd0, 0x0132);
+    out.orientation = num(ifd0, 0x0112);
+    if (out.orientation !== undefined) out.orientationLabel = ORIENTATION_LABELS[out.orientation];
+
+    out.lensMake = str(exif, 0xa433);
+    out.lensModel = str(exif, 0xa434);
+    const spec = exif[0xa432]?.value;
+    if (Array.isArray(spec)) out.lensSpecification = spec;
+    out.bodySerialNumber = str(exif, 0xa431);
+    out.dateTimeOriginal = str(exif, 0x9003);
+    out.dateTimeDigitized = str(exif, 0x9004);
+    out.offsetTime = str(exif, 0x9010);
+    out.offsetTimeOriginal = str(exif, 0x9011);
+    out.offsetTimeDigitized = str(exif, 0x9012);
+    out.subSecTimeOriginal = str(exif, 0x9291);
+    out.exposureTime = num(exif, 0x829a);
+    out.fNumber = num(exif, 0x829d);
+    if (out.fNumber === undefined) {
+        // APEX aperture value → f-number
+        const av = num(exif, 0x9202);
+        if (av !== undefined) out.fNumber = Math.round(Math.pow(2, av / 2) * 10) / 10;
+    }
+    out.iso = num(exif, 0x8827);
+    out.focalLength = num(exif, 0x920a);
+    out.focalLength35mm = num(exif, 0xa405);
+    out.exposureBias = num(exif, 0x9204);
+    out.exposureProgram = label(exif, 0x8822, EXPOSURE_PROGRAM_LABELS);
+    out.exposureMode = label(exif, 0xa402, EXPOSURE_MODE_LABELS);
+    out.meteringMode = label(exif, 0x9207, METERING_MODE_LABELS);
+    const flash = num(exif, 0x9209);
+    if (flash !== undefined) { out.flash = describeFlash(flash); out.flashFired = (flash & 0x1) === 1; }
+    out.whiteBalance = label(exif, 0xa403, WHITE_BALANCE_LABELS);
+    out.sceneCaptureType = label(exif, 0xa406, SCENE_CAPTURE_LABELS);
+    out.digitalZoomRatio = num(exif, 0xa404);
+    out.colorSpace = label(exif, 0xa001, COLOR_SPACE_LABELS);
+    out.pixelWidth = num(exif, 0xa002);
+    out.pixelHeight = num(exif, 0xa003);
+
+    for (const k of Object.keys(out) as (keyof CameraInfo)[]) if (out[k] === undefined) delete out[k];
+    return Object.keys(out).length ? out : null;
+}
+
+// Degrees/minutes/seconds rationals + N/S/E/W reference → signed decimal degrees
+function dmsToDecimal(v: ExifValue | undefined, ref: ExifValue | undefined): number | undefined {
+    const parts = Array.isArray(v) ? v : (typeof v === "number" ? [v] : null);
+    if (!parts || !parts.length) return undefined;
+    const [d, m = 0, s = 0] = parts;
+    const dec = d + m / 60 + s / 3600;
+    if (!Number.isFinite(dec)) return undefined;
+    const r = typeof ref === "string" ? ref.trim().toUpperCase() : "";
+    return r === "S" || r === "W" ? -dec : dec;
+}
+
+/** Decode the GPS IFD. Returns null when the image carries no location tags. */
+export function extractGpsInfo(d: ExifData): GpsInfo | null {
+    const g = d.gps;
+    const out: GpsInfo = {};
+    out.latitude = dmsToDecimal(g[0x0002]?.value, g[0x0001]?.value);
+    out.longitude = dmsToDecimal(g[0x0004]?.value, g[0x0003]?.value);
+    const alt = g[0x0006]?.value;
+    if (typeof alt === "number" && Number.isFinite(alt)) {
+        out.altitude = g[0x0005]?.value === 1 ? -alt : alt;
+    }
+    const time = g[0x0007]?.value;
+    const date = g[0x001d]?.value;
+    if (Array.isArray(time) && time.length >= 3) {
+        const pad = (n: number) => String(Math.floor(n)).padStart(2, "0");
+        const sec = time[2];
+        const hms = `${pad(time[0])}:${pad(time[1])}:${pad(sec)}${sec % 1 ? (sec % 1).toFixed(3).slice(1) : ""}`;
+        out.timestamp = typeof date === "string" && /^\d{4}:\d{2}:\d{2}$/.test(date.trim())
+            ? `${date.trim().replace(/:/g, "-")}T${hms}Z`
+            : `${hms} UTC`;
+    } else if (typeof date === "string" && date.trim()) {
+        out.timestamp = date.trim().replace(/:/g, "-");
+    }
+    const dir = g[0x0011]?.value;
+    if (typeof dir === "number" && Number.isFinite(dir)) {
+        out.direction = dir;
+        const ref = g[0x0010]?.value;
+        if (ref === "T") out.directionRef = "true";
+        else if (ref === "M") out.directionRef = "magnetic";
+    }
+    const datum = g[0x0012]?.value;
+    if (typeof datum === "string" && datum.trim()) out.mapDatum = datum.trim();
+
+    for (const k of Object.keys(out) as (keyof GpsInfo)[]) if (out[k] === undefined) delete out[k];
+    // Altitude, time etc. alone do not place the image anywhere
+    if (out.latitude === undefined || out.longitude === undefined) return null;
+    return out;
+}
+
+/** "lat, lon" with 6 decimals (~0.1 m) */
+export function formatCoordinates(g: GpsInfo): string | null {
+    if (g.latitude === undefined || g.longitude === undefined) return null;
+    return `${g.latitude.toFixed(6)}, ${g.longitude.toFixed(6)}`;
+}
+
+/** Human-readable exposure time, e.g. 0.008 → "1/125 s". */
+export function formatExposureTime(sec: number): string {
+    if (sec <= 0) return `${sec} s`;
+    if (sec >= 1) return `${Math.round(sec * 10) / 10} s`;
+    return `1/${Math.round(1 / sec)} s`;
+}
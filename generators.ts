@@ -0,0 +1,277 @@
+import { isNovelAIComment, extractNovelAI } from "./novelai";
+
+/**
+ * Per-generator adapters for JSON metadata schemas that are not A1111 text
+ * or ComfyUI graphs. Each adapter maps its schema onto the shared field names
+ * (prompt, negative_prompt, steps, sampler, scheduler, cfg_scale, seed,
+ * width/height/size, model, ...) and sets `generator`.
+ *
+ * `raw` holds the text chunks (or EXIF/XMP texts), `parsed` the fields built
+ * so far, including `<key>_json` for every raw value that parsed as JSON.
+ */
+export type GeneratorAdapter = {
+    generator: string;
+    extract(raw: Record<string, string>, parsed: Record<string, unknown>): Record<string, unknown> | null;
+};
+
+export type LoraRef = { name: string; weight?: number };
+
+/** Run the adapters in order; the first match wins. */
+export function extractGeneratorFields(raw: Record<string, string>, parsed: Record<string, unknown>): Record<string, unknown> | null {
+    for (const a of GENERATOR_ADAPTERS) {
+        try {
+            const out = a.extract(raw, parsed);
+            if (out) return { generator: a.generator, ...out };
+        } catch { /* ignore */ }
+    }
+    return null;
+}
+
+/**
+ * True for JSON payloads one of the adapters understands. Used by the text
+ * recovery pipeline to keep such payloads verbatim instead of flattening
+ * them into A1111 text.
+ */
+export function isGeneratorJson(obj: any): boolean {
+    if (!obj || typeof obj !== "object" || Array.isArray(obj)) return false;
+    return !!obj.sui_image_params || isFooocusJson(obj) || isInvokeLegacy(obj) || isInvokeMetadata(obj);
+}
+
+// ---- helpers ----
+
+const isObj = (v: unknown): v is Record<string, any> => !!v && typeof v === "object" && !Array.isArray(v);
+
+function toNumber(v: unknown): number | undefined {
+    if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+    if (typeof v === "string" && v.trim()) {
+        const n = Number(v);
+        return Number.isFinite(n) ? n : undefined;
+    }
+    return undefined;
+}
+
+// Builds a field map, skipping empty values; width/height also produce `size`
+function fieldBuilder() {
+    const out: Record<string, unknown> = {};
+    const put = (k: string, v: unknown) => {
+        if (v === undefined || v === null || v === "") return;
+        if (Array.isArray(v) && !v.length) return;
+        out[k] = v;
+    };
+    const num = (k: string, v: unknown) => put(k, toNumber(v));
+    const str = (k: string, v: unknown) => { if (typeof v === "string" && v.trim()) out[k] = v; };
+    const done = () => {
+        if (typeof out["width"] === "number" && typeof out["height"] === "number") out["size"] = `${out["width"]}x${out["height"]}`;
+        return out;
+    };
+    return { put, num, str, done };
+}
+
+// ---- NovelAI ---- (Comment chunk; see novelai.ts)
+const novelai: GeneratorAdapter = {
+    generator: "NovelAI",
+    extract(raw, parsed) {
+        const comment = parsed["Comment_json"];
+        return isNovelAIComment(comment, raw) ? extractNovelAI(comment, raw) : null;
+    },
+};
+
+// ---- InvokeAI ----
+// v3+: `invokeai_metadata` (flat JSON) and `invokeai_graph` (node graph, kept as JSON only).
+// v2:  `sd-metadata` {app_id, model_weights, image: {prompt, steps, ...}} and a `Dream` command line.
+function isInvokeMetadata(o: any): boolean {
+    return isObj(o) && typeof o.positive_prompt === "string" && ("generation_mode" in o || "app_version" in o);
+}
+function isInvokeLegacy(o: any): boolean {
+    return isObj(o) && isObj(o.image) && (/invoke/i.test(String(o.app_id ?? "")) || "model_weights" in o);
+}
+
+// Model references are objects in v3+ ({name} or {model_name}) and strings elsewhere
+function modelName(m: unknown): string | undefined {
+    if (typeof m === "string") return m;
+    if (isObj(m)) return m.name ?? m.model_name;
+    return undefined;
+}
+
+function readInvokeMetadata(md: Record<string, any>): Record<string, unknown> {
+    const f = fieldBuilder();
+    f.str("prompt", md.positive_prompt);
+    f.str("negative_prompt", md.negative_prompt);
+    f.str("style_prompt", md.positive_style_prompt);
+    f.str("negative_style_prompt", md.negative_style_prompt);
+    f.num("steps", md.steps);
+    f.str("sampler", md.scheduler);
+    f.num("cfg_scale", md.cfg_scale);
+    f.num("seed", md.seed);
+    f.num("width", md.width);
+    f.num("height", md.height);
+    f.put("model", modelName(md.model));
+    if (isObj(md.model)) f.str("model_hash", md.model.hash);
+    f.put("vae", modelName(md.vae));
+    f.num("denoise", md.strength ?? md.denoising_strength);
+    f.num("clip_skip", md.clip_skip);
+    f.str("generation_mode", md.generation_mode);
+    if (Array.isArray(md.loras)) {
+        const loras: LoraRef[] = [];
+        for (const l of md.loras) {
+            const name = modelName(l?.model ?? l?.lora);
+            if (name) loras.push({ name, weight: toNumber(l.weight) });
+        }
+        f.put("loras", loras);
+    }
+    f.str("version", md.app_version);
+    return f.done();
+}
+
+// v2 prompts mark negative terms with [brackets]
+function splitBracketNegatives(prompt: string): { prompt: string; negative: string } {
+    const neg: string[] = [];
+    const pos = prompt.replace(/\[([^\]]*)\]/g, (_m, inner: string) => { if (inner.trim()) neg.push(inner.trim()); return ""; });
+    return { prompt: pos.replace(/\s{2,}/g, " ").trim(), negative: neg.join(", ") };
+}
+
+function readInvokeLegacy(md: Record<string, any>): Record<string, unknown> {
+    const img = md.image;
+    const f = fieldBuilder();
+    let prompt: string | undefined;
+    if (typeof img.prompt === "string") prompt = img.prompt;
+    else if (Array.isArray(img.prompt)) prompt = img.prompt.map((p: any) => p?.prompt).filter(Boolean).join(" ");
+    if (prompt) {
+        const split = splitBracketNegatives(prompt);
+        f.str("prompt", split.prompt);
+        f.str("negative_prompt", split.negative);
+    }
+    f.num("steps", img.steps);
+    f.str("sampler", img.sampler);
+    f.num("cfg_scale", img.cfg_scale);
+    f.num("seed", img.seed);
+    f.num("width", img.width);
+    f.num("height", img.height);
+    f.num("denoise", img.strength);
+    f.str("model", md.model_weights);
+    f.str("model_hash", md.model_hash);
+    f.str("version", md.app_version);
+    return f.done();
+}
+
+// `"a cat [blurry]" -s 50 -S 42 -W 512 -H 512 -C 7.5 -A k_lms`
+const DREAM_FLAGS: Record<string, [string, boolean]> = {
+    s: ["steps", true], S: ["seed", true], W: ["width", true], H: ["height", true],
+    C: ["cfg_scale", true], A: ["sampler", false], f: ["denoise", true],
+};
+function readDreamCommand(line: string): Record<string, unknown> | null {
+    const m = line.trim().match(/^"((?:[^"\\]|\\.)*)"([\s\S]*)$/);
+    if (!m) return null;
+    const f = fieldBuilder();
+    const split = splitBracketNegatives(m[1].replace(/\\"/g, '"'));
+    f.str("prompt", split.prompt);
+    f.str("negative_prompt", split.negative);
+    const re = /(?:^|\s)-(\w)\s+(\S+)/g;
+    let fm: RegExpExecArray | null;
+    while ((fm = re.exec(m[2]))) {
+        const spec = DREAM_FLAGS[fm[1]];
+        if (!spec) continue;
+        if (spec[1]) f.num(spec[0], fm[2]); else f.str(spec[0], fm[2]);
+    }
+    return f.done();
+}
+
+const invokeai: GeneratorAdapter = {
+    generator: "InvokeAI",
+    extract(raw, parsed) {
+        const md = parsed["invokeai_metadata_json"];
+        if (isObj(md)) return readInvokeMetadata(md);
+        for (const k of ["sd-metadata_json", "sd_metadata_json", "parameters_json"]) {
+            const v = parsed[k];
+            if (isInvokeLegacy(v)) return readInvokeLegacy(v as Record<string, any>);
+            if (isInvokeMetadata(v)) return readInvokeMetadata(v as Record<string, any>);
+        }
+        if (raw["Dream"]) return readDreamCommand(raw["Dream"]);
+        return null;
+    },
+};
+
+// ---- Fooocus ----
+// `parameters` holds JSON when `fooocus_scheme` is "fooocus" (the "a1111" scheme writes A1111 text instead)
+function isFooocusJson(o: any): boolean {
+    return isObj(o) && (o.metadata_scheme === "fooocus" || /^Fooocus/i.test(String(o.version ?? ""))) && "prompt" in o;
+}
+
+// Python tuple/list reprs such as "(1024, 1024)"
+function parseIntPair(v: unknown): [number, number] | null {
+    const m = typeof v === "string" ? v.match(/(\d+)\s*[,x×]\s*(\d+)/) : null;
+    return m ? [parseInt(m[1], 10), parseInt(m[2], 10)] : null;
+}
+
+const fooocus: GeneratorAdapter = {
+    generator: "Fooocus",
+    extract(raw, parsed) {
+        const md = parsed["parameters_json"] as Record<string, any>;
+        if (!isObj(md) || !(raw["fooocus_scheme"] === "fooocus" || isFooocusJson(md))) return null;
+        const f = fieldBuilder();
+        f.str("prompt", md.prompt);
+        f.str("negative_prompt", md.negative_prompt);
+        f.num("steps", md.steps);
+        f.str("sampler", md.sampler);
+        f.str("scheduler", md.scheduler);
+        f.num("cfg_scale", md.guidance_scale);
+        f.num("seed", md.seed);
+        const wh = parseIntPair(md.resolution);
+        if (wh) { f.put("width", wh[0]); f.put("height", wh[1]); }
+        f.str("model", md.base_model);
+        f.str("model_hash", md.base_model_hash);
+        if (md.refiner_model && md.refiner_model !== "None") f.str("refiner", md.refiner_model);
+        if (md.vae && md.vae !== "Default (model)") f.str("vae", md.vae);
+        f.num("clip_skip", md.clip_skip);
+        f.num("sharpness", md.sharpness);
+        f.str("performance", md.performance);
+        f.put("styles", md.styles);
+        if (Array.isArray(md.loras)) {
+            // [name, weight, hash] triples
+            const loras: LoraRef[] = md.loras
+                .filter((l: any) => Array.isArray(l) && typeof l[0] === "string")
+                .map((l: any[]) => ({ name: l[0], weight: toNumber(l[1]) }));
+            f.put("loras", loras);
+        }
+        f.str("version", md.version);
+        return f.done();
+    },
+};
+
+// ---- SwarmUI ---- (`parameters` / EXIF UserComment JSON with `sui_image_params`)
+const swarmui: GeneratorAdapter = {
+    generator: "SwarmUI",
+    extract(_raw, parsed) {
+        let md: Record<string, any> | null = null;
+        for (const v of Object.values(parsed)) {
+            if (isObj(v) && isObj(v.sui_image_params)) { md = v.sui_image_params; break; }
+        }
+        if (!md) return null;
+        const f = fieldBuilder();
+        f.str("prompt", md.prompt);
+        f.str("negative_prompt", md.negativeprompt);
+        f.num("steps", md.steps);
+        f.str("sampler", md.sampler);
+        f.str("scheduler", md.scheduler);
+        f.num("cfg_scale", md.cfgscale);
+        f.num("seed", md.seed);
+        f.num("width", md.width);
+        f.num("height", md.height);
+        f.str("model", md.model);
+        f.str("vae", md.vae);
+        f.num("denoise", md.initimagecreativity);
+        const clip = toNumber(md.clipstopatlayer);
+        if (clip !== undefined) f.put("clip_skip", Math.abs(clip));
+        if (Array.isArray(md.loras)) {
+            const weights: unknown[] = Array.isArray(md.loraweights) ? md.loraweights : [];
+            const loras: LoraRef[] = md.loras
+                .filter((n: unknown) => typeof n === "string")
+                .map((name: string, i: number) => ({ name, weight: toNumber(weights[i]) }));
+            f.put("loras", loras);
+        }
+        f.str("version", md.swarm_version);
+        return f.done();
+    },
+};
+
+const GENERATOR_ADAPTERS: GeneratorAdapter[] = [novelai, invokeai, fooocus, swarmui];
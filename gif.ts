@@ -0,0 +1,111 @@
+/**
+ * GIF block walker: logical screen size, Comment and XMP extensions, and
+ * animation facts (frame count, NETSCAPE2.0 loop count, summed frame delays).
+ * LZW image data is skipped, never decoded.
+ */
+export type GifInfo = {
+    version: string;
+    width: number;
+    height: number;
+    comments: Uint8Array[];
+    xmp: Uint8Array | null;
+    frames: number;
+    /** 0 = loop forever; undefined = no NETSCAPE2.0 block (play once) */
+    loopCount?: number;
+    durationMs: number;
+};
+
+export function isGif(u8: Uint8Array): boolean {
+    return u8.length >= 6 && u8[0] === 0x47 && u8[1] === 0x49 && u8[2] === 0x46 && u8[3] === 0x38; // "GIF8"
+}
+
+// XMP "magic trailer": 0x01, 0xFF, 0xFE, ..., 0x00 appended so the raw packet reads as sub-blocks
+// (followed by the usual 0x00 block terminator)
+const XMP_TRAILER_LEN = 257;
+
+export function readGif(u8: Uint8Array): GifInfo | null {
+    if (!isGif(u8) || u8.length < 13) return null;
+    const u16 = (o: number) => u8[o] | (u8[o + 1] << 8);
+    const info: GifInfo = {
+        version: String.fromCharCode(u8[3], u8[4], u8[5]),
+        width: u16(6),
+        height: u16(8),
+        comments: [],
+        xmp: null,
+        frames: 0,
+        durationMs: 0,
+    };
+    let off = 13;
+    const packed = u8[10];
+    if (packed & 0x80) off += 3 * (1 << ((packed & 0x07) + 1));
+
+    // Returns the offset after the 0-length terminator and the concatenated payload
+    const readSubBlocks = (start: number): { end: number; data: Uint8Array } => {
+        const parts: Uint8Array[] = [];
+        let p = start;
+        let total = 0;
+        while (p < u8.length) {
+            const n = u8[p++];
+            if (n === 0) break;
+            parts.push(u8.subarray(p, Math.min(u8.length, p + n)));
+            total += n;
+            p += n;
+        }
+        const data = new Uint8Array(total);
+        let q = 0; for (const part of parts) { data.set(part, q); q += part.length; }
+        return { end: p, data };
+    };
+
+    let pendingDelay = 0;
+    while (off < u8.length) {
+        const b = u8[off++];
+        if (b === 0x3b) break; // trailer
+        if (b === 0x2c) {
+            // Image descriptor: x, y, w, h (u16 each) + packed
+            if (off + 9 > u8.length) break;
+            const ipacked = u8[off + 8];
+            off += 9;
+            if (ipacked & 0x80) off += 3 * (1 << ((ipacked & 0x07) + 1));
+            off += 1; // LZW minimum code size
+            off = readSubBlocks(off).end;
+            info.frames++;
+            info.durationMs += pendingDelay;
+            pendingDelay = 0;
+        } else if (b === 0x21) {
+            const label = u8[off++];
+            if (label === 0xf9) {
+                // Graphic Control Extension: delay in 1/100 s applies to the next image
+                const blk = readSubBlocks(off);
+                if (blk.data.length >= 3) pendingDelay = (blk.data[1] | (blk.data[2] << 8)) * 10;
+                off = blk.end;
+            } else if (label === 0xfe) {
+                const blk = readSubBlocks(off);
+                if (blk.data.length) info.comments.push(blk.data);
+                off = blk.end;
+            } else if (label === 0xff) {
+                const size = u8[off];
+                const app = String.fromCharCode(...Array.from(u8.subarray(off + 1, off + 1 + Math.min(size, 11))));
+                const dataStart = off + 1 + size;
+                if (app === "XMP DataXMP") {
+                    // XMP is stored raw (not sub-blocked) and followed by the magic trailer
+                    let end = dataStart;
+                    while (end + 2 < u8.length && !(u8[end] === 0x01 && u8[end + 1] === 0xff && u8[end + 2] === 0xfe)) end++;
+                    info.xmp = u8.subarray(dataStart, end);
+                    off = Math.min(u8.length, end + XMP_TRAILER_LEN);
+                    if (u8[off] === 0) off++;
+                } else {
+                    const blk = readSubBlocks(dataStart);
+                    if ((app === "NETSCAPE2.0" || app === "ANIMEXTS1.0") && blk.data.length >= 3 && blk.data[0] === 1) {
+                        info.loopCount = blk.data[1] | (blk.data[2] << 8);
+                    }
+                    off = blk.end;
+                }
+            } else {
+                off = readSubBlocks(off).end;
+            }
+        } else {
+            break; // unknown block; stop rather than misread image data
+        }
+    }
+    return info;
+}
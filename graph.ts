@@ -0,0 +1,175 @@
+import { isComfyLink, GRAPH_SLOT_HEIGHT, GRAPH_TITLE_HEIGHT } from "./comfy";
+import type { GraphLayout, GraphLayoutNode } from "./comfy";
+import { renderKeyValueSection } from "./sections";
+import type { KeyValueRow } from "./sections";
+
+/**
+ * SVG view of a ComfyUI graph: groups, nodes with titles and slots, and
+ * bezier link edges. Drag to pan, wheel to zoom, click a node to inspect its
+ * inputs. Everything is drawn from the parsed layout; nothing is fetched.
+ */
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 4;
+const CLICK_SLOP = 4;
+
+type ViewState = { x: number; y: number; k: number };
+
+export function renderComfyGraph(parent: HTMLElement, layout: GraphLayout, copy: (text: string) => unknown): HTMLElement {
+    const wrap = parent.createDiv({ cls: "imgmeta-graph" });
+    const toolbar = wrap.createDiv({ cls: "imgmeta-controls" });
+    const fitBtn = toolbar.createEl("button", { cls: "imgmeta-inline-btn", text: "Fit" });
+    const zoomIn = toolbar.createEl("button", { cls: "imgmeta-inline-btn", text: "+" });
+    const zoomOut = toolbar.createEl("button", { cls: "imgmeta-inline-btn", text: "−" });
+    toolbar.createEl("span", { cls: "imgmeta-graph-count", text: `${layout.nodes.length} nodes` });
+
+    const svg = wrap.createSvg("svg", { cls: "imgmeta-graph-canvas" });
+    const root = svg.createSvg("g");
+    const inspector = wrap.createDiv({ cls: "imgmeta-graph-inspector" });
+
+    const byId: Record<string, GraphLayoutNode> = {};
+    for (const n of layout.nodes) byId[n.id] = n;
+
+    // Groups behind everything
+    for (const g of layout.groups) {
+        const ge = root.createSvg("g", { cls: "imgmeta-graph-group" });
+        const rect = ge.createSvg("rect", { attr: { x: g.x, y: g.y, width: g.w, height: g.h, rx: 6 } });
+        if (g.color) rect.style.fill = g.color;
+        ge.createSvg("text", { attr: { x: g.x + 8, y: g.y + 20 } }).textContent = g.title;
+    }
+
+    // Edges: output slots on the right edge, input slots on the left
+    const slotY = (n: GraphLayoutNode, slot: number) => n.y + GRAPH_TITLE_HEIGHT + GRAPH_SLOT_HEIGHT * (slot + 0.5) + 4;
+    const collapsed = (n: GraphLayoutNode) => n.h <= GRAPH_TITLE_HEIGHT;
+    for (const e of layout.edges) {
+        const a = byId[e.from], b = byId[e.to];
+        if (!a || !b) continue;
+        const x1 = a.x + a.w, y1 = collapsed(a) ? a.y + GRAPH_TITLE_HEIGHT / 2 : slotY(a, e.fromSlot);
+        const x2 = b.x, y2 = collapsed(b) ? b.y + GRAPH_TITLE_HEIGHT / 2 : slotY(b, e.toSlot);
+        const dx = Math.max(40, Math.abs(x2 - x1) / 2);
+        const path = root.createSvg("path", {
+            cls: "imgmeta-graph-edge",
+            attr: { d: `M${x1},${y1} C${x1 + dx},${y1} ${x2 - dx},${y2} ${x2},${y2}` },
+        });
+        if (e.type) path.setAttr("data-type", String(e.type));
+    }
+
+    // Nodes
+    let selected: SVGGElement | null = null;
+    const nodeEls: Record<string, SVGGElement> = {};
+    for (const n of layout.nodes) {
+        const g = root.createSvg("g", { cls: "imgmeta-graph-node", attr: { "data-id": n.id } });
+        nodeEls[n.id] = g;
+        const body = g.createSvg("rect", { cls: "imgmeta-graph-node-body", attr: { x: n.x, y: n.y, width: n.w, height: n.h, rx: 6 } });
+        if (n.color) body.style.fill = n.color;
+        g.createSvg("rect", { cls: "imgmeta-graph-node-title", attr: { x: n.x, y: n.y, width: n.w, height: GRAPH_TITLE_HEIGHT, rx: 6 } });
+        const maxChars = Math.max(4, Math.floor((n.w - 16) / 7));
+        const title = n.title.length > maxChars ? n.title.slice(0, maxChars - 1) + "…" : n.title;
+        g.createSvg("text", { cls: "imgmeta-graph-node-label", attr: { x: n.x + 8, y: n.y + 17 } }).textContent = title;
+        g.createSvg("title").textContent = `${n.title} (${n.type}) #${n.id}`;
+        if (collapsed(n)) continue;
+        n.inputSlots.forEach((name, i) => {
+            g.createSvg("circle", { cls: "imgmeta-graph-slot", attr: { cx: n.x, cy: slotY(n, i), r: 3.5 } });
+            g.createSvg("text", { cls: "imgmeta-graph-slot-label", attr: { x: n.x + 8, y: slotY(n, i) + 4 } }).textContent = name;
+        });
+        n.outputSlots.forEach((name, i) => {
+            g.createSvg("circle", { cls: "imgmeta-graph-slot", attr: { cx: n.x + n.w, cy: slotY(n, i), r: 3.5 } });
+            g.createSvg("text", { cls: "imgmeta-graph-slot-label imgmeta-graph-slot-label--out", attr: { x: n.x + n.w - 8, y: slotY(n, i) + 4 } }).textContent = name;
+        });
+    }
+
+    const showNode = (id: string) => {
+        const n = byId[id];
+        if (!n) return;
+        if (selected) selected.removeClass("is-selected");
+        selected = nodeEls[id] ?? null;
+        if (selected) selected.addClass("is-selected");
+        inspector.empty();
+        renderKeyValueSection(inspector, `${n.title} #${n.id}`, nodeInputRows(n, byId), copy);
+    };
+
+    // ---- Pan / zoom ----
+    const view: ViewState = { x: 0, y: 0, k: 1 };
+    const apply = () => root.setAttr("transform", `translate(${view.x},${view.y}) scale(${view.k})`);
+    const zoomAt = (factor: number, cx: number, cy: number) => {
+        const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * factor));
+        // Keep the point under the cursor fixed
+        view.x = cx - ((cx - view.x) * k) / view.k;
+        view.y = cy - ((cy - view.y) * k) / view.k;
+        view.k = k;
+        apply();
+    };
+    const fit = () => {
+        const rect = svg.getBoundingClientRect();
+        const b = bounds(layout);
+        if (!b || !rect.width || !rect.height) { apply(); return; }
+        const pad = 16;
+        view.k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min((rect.width - pad * 2) / b.w, (rect.height - pad * 2) / b.h, 1)));
+        view.x = pad - b.x * view.k + (rect.width - pad * 2 - b.w * view.k) / 2;
+        view.y = pad - b.y * view.k;
+        apply();
+    };
+
+    svg.addEventListener("wheel", (ev) => {
+        ev.preventDefault();
+        const rect = svg.getBoundingClientRect();
+        zoomAt(ev.deltaY < 0 ? 1.15 : 1 / 1.15, ev.clientX - rect.left, ev.clientY - rect.top);
+    }, { passive: false });
+
+    let drag: { px: number; py: number; x: number; y: number; moved: boolean } | null = null;
+    svg.addEventListener("pointerdown", (ev) => {
+        if (ev.button !== 0) return;
+        drag = { px: ev.clientX, py: ev.clientY, x: view.x, y: view.y, moved: false };
+        svg.setPointerCapture(ev.pointerId);
+    });
+    svg.addEventListener("pointermove", (ev) => {
+        if (!drag) return;
+        const dx = ev.clientX - drag.px, dy = ev.clientY - drag.py;
+        if (!drag.moved && Math.abs(dx) + Math.abs(dy) < CLICK_SLOP) return;
+        drag.moved = true;
+        svg.addClass("is-panning");
+        view.x = drag.x + dx; view.y = drag.y + dy;
+        apply();
+    });
+    svg.addEventListener("pointerup", (ev) => {
+        const wasDrag = drag?.moved;
+        drag = null;
+        svg.removeClass("is-panning");
+        if (svg.hasPointerCapture(ev.pointerId)) svg.releasePointerCapture(ev.pointerId);
+        if (wasDrag) return;
+        // A click (no pan): select the node under the pointer
+        const hit = document.elementFromPoint(ev.clientX, ev.clientY);
+        const nodeEl = hit && (hit as Element).closest ? (hit as Element).closest(".imgmeta-graph-node") : null;
+        const id = nodeEl?.getAttribute("data-id");
+        if (id) showNode(id);
+    });
+
+    fitBtn.onclick = fit;
+    zoomIn.onclick = () => { const r = svg.getBoundingClientRect(); zoomAt(1.25, r.width / 2, r.height / 2); };
+    zoomOut.onclick = () => { const r = svg.getBoundingClientRect(); zoomAt(1 / 1.25, r.width / 2, r.height / 2); };
+    fit();
+    return wrap;
+}
+
+function bounds(layout: GraphLayout): { x: number; y: number; w: number; h: number } | null {
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const r of [...layout.nodes, ...layout.groups]) {
+        x0 = Math.min(x0, r.x); y0 = Math.min(y0, r.y);
+        x1 = Math.max(x1, r.x + r.w); y1 = Math.max(y1, r.y + r.h);
+    }
+    return Number.isFinite(x0) ? { x: x0, y: y0, w: Math.max(1, x1 - x0), h: Math.max(1, y1 - y0) } : null;
+}
+
+// Inspector rows: class and id, then inputs with links shown as their source node
+function nodeInputRows(n: GraphLayoutNode, byId: Record<string, GraphLayoutNode>): KeyValueRow[] {
+    const rows: KeyValueRow[] = [["Class", n.type], ["Id", n.id]];
+    for (const k of Object.keys(n.inputs)) {
+        const v = n.inputs[k];
+        if (isComfyLink(v)) {
+            const src = byId[String(v[0])];
+            rows.push([k, `← ${src ? src.title : "node"} #${v[0]}${v[1] ? ` [${v[1]}]` : ""}`]);
+        } else {
+            rows.push([k, typeof v === "string" ? v : JSON.stringify(v)]);
+        }
+    }
+    return rows;
+}
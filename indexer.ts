@@ -0,0 +1,256 @@
+import { App, Events, TAbstractFile, TFile, debounce } from "obsidian";
+import type { ImageMeta } from "./parser";
+import type { ParseCache } from "./cache";
+import { isParseFailure } from "./parseworker";
+
+/**
+ * Vault-wide metadata index. Every supported image is parsed once in the
+ * background and a small, searchable subset of its normalized fields is kept
+ * in `index.json` in the plugin folder. Entries are keyed by path and
+ * refreshed when mtime, size or the parse options change; vault events keep
+ * it incremental.
+ * Partial (timed-out) results and transient failures are not stored, so the
+ * file is parsed again on the next scan.
+ */
+export type IndexedFields = {
+    generator?: string;
+    prompt?: string;
+    negative_prompt?: string;
+    model?: string;
+    sampler?: string;
+    scheduler?: string;
+    /** Kept as text so large seeds compare exactly */
+    seed?: string;
+    steps?: number;
+    cfg_scale?: number;
+    /** "WxH" */
+    dimensions?: string;
+    loras?: string[];
+};
+
+export type IndexEntry = {
+    path: string;
+    mtime: number;
+    size: number;
+    /** Parse options the fields were extracted with (ParseCache.optionsKey) */
+    options: string;
+    fields: IndexedFields;
+};
+
+export type IndexQuery = {
+    /** Whitespace-separated terms, all of which must appear in the prompt or negative prompt */
+    text?: string;
+    model?: string;
+    sampler?: string;
+    seed?: string;
+    lora?: string;
+    generator?: string;
+};
+
+type IndexFile = { version: number; entries: Record<string, IndexEntry> };
+
+// Bump when IndexedFields or the extraction changes so stale files are re-parsed
+const INDEX_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+
+/** Reduce parsed metadata to the indexed subset. */
+export function toIndexedFields(meta: ImageMeta): IndexedFields {
+    const f = meta.fields as Record<string, any>;
+    const out: IndexedFields = {};
+    const str = (v: unknown) => (typeof v === "string" && v.trim() ? v : undefined);
+    const generator = str(f["generator"]) ?? (meta.params ? "A1111" : undefined);
+    if (generator) out.generator = generator;
+    if (str(f["prompt"])) out.prompt = f["prompt"];
+    if (str(f["negative_prompt"])) out.negative_prompt = f["negative_prompt"];
+    if (str(f["model"])) out.model = f["model"];
+    if (str(f["sampler"])) out.sampler = f["sampler"];
+    if (str(f["scheduler"])) out.scheduler = f["scheduler"];
+    if (typeof f["seed"] === "number" || str(f["seed"])) out.seed = String(f["seed"]);
+    if (typeof f["steps"] === "number") out.steps = f["steps"];
+    if (typeof f["cfg_scale"] === "number") out.cfg_scale = f["cfg_scale"];
+    if (str(f["size"])) out.dimensions = f["size"];
+    const loras = loraNames(f);
+    if (loras.length) out.loras = loras;
+    return out;
+}
+
+// LoRA names from adapter/ComfyUI `loras`, A1111 `Lora hashes`, and `<lora:name:weight>` prompt tags
+function loraNames(f: Record<string, any>): string[] {
+    const names: string[] = [];
+    const add = (n: unknown) => { if (typeof n === "string" && n && names.indexOf(n) < 0) names.push(n); };
+    if (Array.isArray(f["loras"])) for (const l of f["loras"]) add(typeof l === "string" ? l : l?.name);
+    if (f["lora_hashes"] && typeof f["lora_hashes"] === "object") Object.keys(f["lora_hashes"]).forEach(add);
+    if (typeof f["prompt"] === "string") {
+        const re = /<(?:lora|lyco):([^:>]+)(?::[^>]*)?>/gi;
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(f["prompt"]))) add(m[1].trim());
+    }
+    return names;
+}
+
+/** True when an entry satisfies every filter of the query. Text filters are case-insensitive substrings. */
+export function matchesQuery(e: IndexEntry, q: IndexQuery): boolean {
+    const f = e.fields;
+    const has = (hay: string | undefined, needle: string | undefined) =>
+        !needle || (!!hay && hay.toLowerCase().includes(needle.toLowerCase()));
+    if (q.text) {
+        const hay = `${f.prompt ?? ""}\n${f.negative_prompt ?? ""}`.toLowerCase();
+        for (const term of q.text.toLowerCase().split(/\s+/)) if (term && !hay.includes(term)) return false;
+    }
+    if (!has(f.model, q.model) || !has(f.sampler, q.sampler)) return false;
+    if (q.seed && f.seed !== q.seed.trim()) return false;
+    if (q.generator && f.generator !== q.generator) return false;
+    if (q.lora && !(f.loras ?? []).some((n) => has(n, q.lora))) return false;
+    return true;
+}
+
+export class MetadataIndex extends Events {
+    private entries: Record<string, IndexEntry> = {};
+    private queue: string[] = [];
+    private queued: Record<string, true> = {};
+    private running = false;
+    private stopped = false;
+    private readonly requestSave = debounce(() => { void this.save(); }, SAVE_DELAY_MS, true);
+
+    constructor(private app: App, private storePath: string, private cache: ParseCache, private isIndexable: (file: TFile) => boolean) { super(); }
+
+    /** Number of files waiting to be parsed. */
+    get pending(): number { return this.queue.length; }
+    get size(): number { return Object.keys(this.entries).length; }
+
+    async load() {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.storePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.storePath)) as IndexFile;
+            if (data && data.version === INDEX_VERSION && data.entries && typeof data.entries === "object") this.entries = data.entries;
+        } catch (e) {
+            console.warn("Failed to load metadata index", e);
+        }
+    }
+
+    async save() {
+        try {
+            const data: IndexFile = { version: INDEX_VERSION, entries: this.entries };
+            await this.app.vault.adapter.write(this.storePath, JSON.stringify(data));
+        } catch (e) {
+            console.warn("Failed to save metadata index", e);
+        }
+    }
+
+    /** Queue every enabled file whose entry is missing or stale, and drop entries for files that are gone. */
+    scanVault() {
+        const seen: Record<string, true> = {};
+        for (const file of this.app.vault.getFiles()) {
+            if (!this.isIndexable(file)) continue;
+            seen[file.path] = true;
+            if (this.isStale(file)) this.enqueue(file);
+        }
+        let removed = false;
+        for (const path of Object.keys(this.entries)) {
+            if (!seen[path]) { delete this.entries[path]; removed = true; }
+        }
+        if (removed) this.changed();
+    }
+
+    // ---- vault events ----
+    onCreateOrModify(file: TAbstractFile) {
+        if (file instanceof TFile && this.isIndexable(file) && this.isStale(file)) this.enqueue(file);
+    }
+
+    onDelete(file: TAbstractFile) {
+        if (!this.entries[file.path]) return;
+        delete this.entries[file.path];
+        this.changed();
+    }
+
+    onRename(file: TAbstractFile, oldPath: string) {
+        const prev = this.entries[oldPath];
+        if (prev) delete this.entries[oldPath];
+        if (!(file instanceof TFile) || !this.isIndexable(file)) { if (prev) this.changed(); return; }
+        // Content is unchanged by a rename; keep the parsed fields
+        if (prev && prev.mtime === file.stat.mtime && prev.size === file.stat.size && prev.options === this.cache.optionsKey()) {
+            this.entries[file.path] = { ...prev, path: file.path };
+            this.changed();
+        } else {
+            this.enqueue(file);
+        }
+    }
+
+    stop() {
+        this.stopped = true;
+        this.queue = [];
+        this.queued = {};
+    }
+
+    // ---- queries ----
+    search(q: IndexQuery): IndexEntry[] {
+        const out: IndexEntry[] = [];
+        for (const path of Object.keys(this.entries)) {
+            const e = this.entries[path];
+            if (matchesQuery(e, q)) out.push(e);
+        }
+        // Newest first
+        return out.sort((a, b) => b.mtime - a.mtime);
+    }
+
+    generators(): string[] {
+        const seen: Record<string, true> = {};
+        for (const path of Object.keys(this.entries)) {
+            const g = this.entries[path].fields.generator;
+            if (g) seen[g] = true;
+        }
+        return Object.keys(seen).sort();
+    }
+
+    // ---- background parsing ----
+    private isStale(file: TFile): boolean {
+        const e = this.entries[file.path];
+        return !e || e.mtime !== file.stat.mtime || e.size !== file.stat.size || e.options !== this.cache.optionsKey();
+    }
+
+    private enqueue(file: TFile) {
+        if (this.stopped || this.queued[file.path]) return;
+        this.queued[file.path] = true;
+        this.queue.push(file.path);
+        void this.run();
+    }
+
+    // One file at a time, yielding between files so the UI stays responsive
+    private async run() {
+        if (this.running) return;
+        this.running = true;
+        try {
+            while (this.queue.length && !this.stopped) {
+                const path = this.queue.shift() as string;
+                delete this.queued[path];
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (file instanceof TFile && this.isStale(file)) await this.indexFile(file);
+                await new Promise((r) => setTimeout(r, 0));
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async indexFile(file: TFile) {
+        const options = this.cache.optionsKey();
+        try {
+            const meta = await this.cache.get(file);
+            // Timed out: the fast pass may lack fields the full parse would find
+            if (meta.partial) return;
+            this.entries[file.path] = { path: file.path, mtime: file.stat.mtime, size: file.stat.size, options, fields: toIndexedFields(meta) };
+        } catch (e) {
+            // Cancelled, timed out, worker or read errors: leave the file for the next scan
+            if (!isParseFailure(e)) return;
+            // Keep an empty entry so files the parser rejects are not retried until they change
+            console.warn("Failed to index", file.path, e);
+            this.entries[file.path] = { path: file.path, mtime: file.stat.mtime, size: file.stat.size, options, fields: {} };
+        }
+        this.changed();
+    }
+
+    private changed() {
+        this.requestSave();
+        this.trigger("updated");
+    }
+}
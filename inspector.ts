@@ -0,0 +1,104 @@
+import { isComfyLink } from "./comfy";
+import type { ComfyNodeEntry } from "./comfy";
+
+/**
+ * ComfyUI node inspector: every node with its literal inputs and linked
+ * inputs (as references to the source node), a filter box matching id,
+ * class type, title, input names and values, and per-value copy buttons.
+ * Filter `#12` matches node 12 only. Muted, bypassed and virtual workflow
+ * nodes carry a mode badge (and match its name).
+ */
+export function renderNodeInspector(parent: HTMLElement, nodes: ComfyNodeEntry[], copy: (text: string) => unknown): HTMLDetailsElement | null {
+    if (!nodes.length) return null;
+    const details = parent.createEl("details", { cls: "imgmeta-details imgmeta-nodes" });
+    const sum = details.createEl("summary");
+    sum.setText(`Nodes (${nodes.length})`);
+
+    const bar = details.createDiv({ cls: "imgmeta-searchbar" });
+    const input = bar.createEl("input", { type: "text" });
+    input.placeholder = "Filter by class, title or value (#id for one node)";
+    const count = bar.createEl("span", { cls: "imgmeta-search-count" });
+    const list = details.createDiv({ cls: "imgmeta-nodes-list" });
+
+    const byId: Record<string, ComfyNodeEntry> = {};
+    for (const n of nodes) byId[n.id] = n;
+
+    type Row = { el: HTMLTableRowElement; text: string };
+    type Block = { node: ComfyNodeEntry; el: HTMLDivElement; head: string; rows: Row[] };
+    const blocks: Block[] = [];
+
+    for (const n of nodes) {
+        const el = list.createDiv({ cls: "imgmeta-node", attr: { "data-id": n.id } });
+        const header = el.createDiv({ cls: "imgmeta-node-header" });
+        header.createEl("span", { cls: "imgmeta-node-id", text: `#${n.id}` });
+        header.createEl("span", { cls: "imgmeta-node-class", text: n.classType });
+        if (n.title) header.createEl("span", { cls: "imgmeta-node-title", text: n.title });
+        if (n.mode) {
+            el.addClass(`imgmeta-node-${n.mode}`);
+            header.createEl("span", { cls: "imgmeta-node-mode", text: n.mode });
+        }
+        const table = el.createEl("table", { cls: "imgmeta-kv" });
+        const rows: Row[] = [];
+        for (const k of Object.keys(n.inputs)) {
+            const v = n.inputs[k];
+            const tr = table.createEl("tr");
+            tr.createEl("th", { text: k });
+            const td = tr.createEl("td");
+            let text: string;
+            if (isComfyLink(v)) {
+                const src = byId[String(v[0])];
+                text = `#${v[0]} ${src ? src.title ?? src.classType : ""}${v[1] ? ` [${v[1]}]` : ""}`.trim();
+                const ref = td.createEl("a", { cls: "imgmeta-node-ref", text: `← ${text}`, href: "#" });
+                ref.onclick = (ev) => { ev.preventDefault(); reveal(String(v[0])); };
+            } else {
+                text = typeof v === "string" ? v : JSON.stringify(v);
+                td.setText(text);
+            }
+            const btnCell = tr.createEl("td", { cls: "imgmeta-node-copy" });
+            const btn = btnCell.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+            const value = isComfyLink(v) ? String(v[0]) : text;
+            btn.onclick = () => copy(value);
+            rows.push({ el: tr, text: `${k} ${text}`.toLowerCase() });
+        }
+        blocks.push({ node: n, el, head: `${n.classType} ${n.title ?? ""} ${n.mode ?? ""}`.toLowerCase(), rows });
+    }
+
+    const apply = () => {
+        const q = input.value.trim().toLowerCase();
+        const idMatch = q.match(/^#(\S+)$/);
+        let shown = 0;
+        for (const b of blocks) {
+            let visible: boolean;
+            if (!q) {
+                visible = true;
+                for (const r of b.rows) r.el.toggle(true);
+            } else if (idMatch) {
+                visible = b.node.id.toLowerCase() === idMatch[1];
+                for (const r of b.rows) r.el.toggle(true);
+            } else if (b.head.includes(q)) {
+                // Class/title hit: show the whole node
+                visible = true;
+                for (const r of b.rows) r.el.toggle(true);
+            } else {
+                // Otherwise only the inputs whose name or value matches
+                let any = false;
+                for (const r of b.rows) { const hit = r.text.includes(q); r.el.toggle(hit); any = any || hit; }
+                visible = any;
+            }
+            b.el.toggle(visible);
+            if (visible) shown++;
+        }
+        count.setText(q ? `${shown}/${blocks.length}` : "");
+    };
+
+    // Follow a link reference: show the source node and scroll it into view
+    const reveal = (id: string) => {
+        input.value = `#${id}`;
+        apply();
+        const el = blocks.find((b) => b.node.id === id)?.el;
+        if (el) el.scrollIntoView({ block: "nearest" });
+    };
+
+    input.addEventListener("input", apply);
+    return details;
+}
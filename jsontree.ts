@@ -0,0 +1,306 @@
+/**
+ * Collapsible JSON tree for prompt/workflow/raw payloads. Children are
+ * rendered when their parent is first expanded, and large objects and arrays
+ * a page at a time, so multi-megabyte workflows stay cheap to show.
+ *
+ * The toolbar expands the tree to a fixed depth and searches keys and scalar
+ * values; search walks the data rather than the DOM and opens every collapsed
+ * branch that contains a match. Each row can copy its JSON path (`$.nodes[3].type`)
+ * and its value.
+ */
+
+// Children rendered per "Show more" step
+const PAGE_SIZE = 200;
+// Search stops after this many matches (each one expands its branch)
+const MAX_HITS = 500;
+const INDENT_PX = 14;
+
+type TreeNode = {
+    value: unknown;
+    path: string;
+    depth: number;
+    row: HTMLDivElement;
+    keyEl: HTMLSpanElement | null;
+    valueEl: HTMLSpanElement | null;
+    toggle: HTMLSpanElement | null;
+    childrenEl: HTMLDivElement | null;
+    keys: string[];
+    children: Record<string, TreeNode>;
+    // Number of children rendered so far
+    shown: number;
+    moreEl: HTMLDivElement | null;
+    expanded: boolean;
+};
+
+/** `$.a.b[0]["odd key"]` */
+export function jsonPath(parent: string, key: string, inArray: boolean): string {
+    if (inArray) return `${parent}[${key}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+const isContainer = (v: unknown): v is Record<string, unknown> => v !== null && typeof v === "object";
+
+/** Text of a scalar as shown in the tree (strings without quotes). */
+export function jsonSearchText(v: unknown): string {
+    return typeof v === "string" ? v : String(v);
+}
+
+export class JsonTree {
+    readonly el: HTMLDivElement;
+    private root: TreeNode;
+    private hits: TreeNode[] = [];
+    private hitIndex = -1;
+    // Search stopped at MAX_HITS
+    private capped = false;
+    private countEl: HTMLSpanElement;
+    private inputEl: HTMLInputElement;
+    // Span holding an external highlight (metadata search), restored by clearHighlight
+    private highlighted: { el: HTMLSpanElement; text: string } | null = null;
+
+    constructor(parent: HTMLElement, value: unknown, private copy: (text: string) => unknown, initialDepth = 1) {
+        this.el = parent.createDiv({ cls: "imgmeta-json" });
+        const bar = this.el.createDiv({ cls: "imgmeta-searchbar imgmeta-json-bar" });
+        const input = bar.createEl("input", { type: "text" });
+        input.placeholder = "Search keys and values";
+        this.inputEl = input;
+        this.countEl = bar.createEl("span", { cls: "imgmeta-search-count" });
+        const depthBtn = (label: string, depth: number, tip: string) => {
+            const b = bar.createEl("button", { cls: "imgmeta-inline-btn", text: label });
+            b.setAttr("aria-label", tip);
+            b.onclick = () => this.expandToDepth(depth);
+        };
+        depthBtn("−", 0, "Collapse all");
+        depthBtn("1", 1, "Expand to depth 1");
+        depthBtn("2", 2, "Expand to depth 2");
+        depthBtn("3", 3, "Expand to depth 3");
+
+        input.addEventListener("input", () => this.search(input.value));
+        input.addEventListener("keydown", (ev) => {
+            if (ev.key !== "Enter") return;
+            ev.preventDefault();
+            if (ev.shiftKey) this.prev(); else this.next();
+        });
+
+        const body = this.el.createDiv({ cls: "imgmeta-json-body" });
+        this.root = this.createNode(body, null, value, "$", 0);
+        this.expandToDepth(initialDepth);
+    }
+
+    /** Expand every node above `depth` and collapse the rest (0 collapses all). */
+    expandToDepth(depth: number) {
+        const apply = (node: TreeNode) => {
+            if (!node.childrenEl) return;
+            this.setExpanded(node, node.depth < depth);
+            // Already rendered descendants of a collapsed node are reset too
+            for (const k of Object.keys(node.children)) apply(node.children[k]);
+        };
+        apply(this.root);
+    }
+
+    /** Mark rows whose key or value contains `query` (case-insensitive) and open their branches. */
+    search(query: string) {
+        for (const n of this.hits) n.row.removeClass("is-match", "is-current");
+        this.hits = [];
+        this.hitIndex = -1;
+        const q = query.trim().toLowerCase();
+        if (!q) { this.countEl.setText(""); return; }
+
+        const paths: string[][] = [];
+        const visit = (v: unknown, keys: string[], key: string | null) => {
+            if (paths.length >= MAX_HITS) return;
+            const keyHit = key !== null && key.toLowerCase().includes(q);
+            const valueHit = !isContainer(v) && jsonSearchText(v).toLowerCase().includes(q);
+            if (keyHit || valueHit) paths.push(keys);
+            if (!isContainer(v)) return;
+            const arr = Array.isArray(v);
+            for (const k of Object.keys(v)) {
+                if (paths.length >= MAX_HITS) return;
+                visit(v[k], keys.concat(k), arr ? null : k);
+            }
+        };
+        visit(this.root.value, [], null);
+
+        for (const keys of paths) {
+            const node = this.reveal(keys);
+            if (!node) continue;
+            node.row.addClass("is-match");
+            this.hits.push(node);
+        }
+        this.capped = paths.length >= MAX_HITS;
+        this.updateCount();
+        if (this.hits.length) this.next();
+    }
+
+    /**
+     * Reveal a node by key path and mark `start`..`end` of its key or scalar
+     * text (as returned by `jsonSearchText`). Returns the marked span.
+     */
+    highlight(keys: string[], part: "key" | "value", start: number, end: number): HTMLElement | null {
+        this.clearHighlight();
+        const node = this.reveal(keys);
+        const el = node ? (part === "key" ? node.keyEl : node.valueEl) : null;
+        if (!el) return null;
+        const text = el.textContent ?? "";
+        this.highlighted = { el, text };
+        el.empty();
+        el.appendText(text.slice(0, start));
+        const hit = el.createEl("span", { cls: "imgmeta-hit-range is-current", text: text.slice(start, end) });
+        el.appendText(text.slice(end));
+        return hit;
+    }
+
+    clearHighlight() {
+        if (!this.highlighted) return;
+        this.highlighted.el.setText(this.highlighted.text);
+        this.highlighted = null;
+    }
+
+    next() { this.step(1); }
+    prev() { this.step(-1); }
+
+    private step(dir: number) {
+        if (!this.hits.length) return;
+        if (this.hitIndex >= 0) this.hits[this.hitIndex].row.removeClass("is-current");
+        this.hitIndex = this.hitIndex < 0 ? 0 : (this.hitIndex + dir + this.hits.length) % this.hits.length;
+        const cur = this.hits[this.hitIndex];
+        cur.row.addClass("is-current");
+        cur.row.scrollIntoView({ block: "nearest" });
+        this.updateCount();
+    }
+
+    private updateCount() {
+        const total = `${this.hits.length}${this.capped ? "+" : ""}`;
+        this.countEl.setText(this.hits.length ? `${this.hitIndex + 1}/${total}` : "0/0");
+    }
+
+    // Expand (and render) every ancestor of a key path; the node at the end of it
+    private reveal(keys: string[]): TreeNode | null {
+        let node: TreeNode | undefined = this.root;
+        for (const k of keys) {
+            if (!node.childrenEl) return null;
+            this.setExpanded(node, true);
+            const i = node.keys.indexOf(k);
+            if (i < 0) return null;
+            if (i >= node.shown) this.renderChildren(node, i + 1);
+            node = node.children[k];
+            if (!node) return null;
+        }
+        return node;
+    }
+
+    private createNode(parentEl: HTMLElement, key: string | null, value: unknown, path: string, depth: number): TreeNode {
+        const row = parentEl.createDiv({ cls: "imgmeta-json-row" });
+        row.style.paddingLeft = `${depth * INDENT_PX}px`;
+        const container = isContainer(value);
+        const node: TreeNode = {
+            value, path, depth, row,
+            keyEl: null, valueEl: null, toggle: null, childrenEl: null,
+            keys: container ? Object.keys(value) : [],
+            children: {}, shown: 0, moreEl: null, expanded: false,
+        };
+        const toggle = row.createEl("span", { cls: "imgmeta-json-toggle", text: container && node.keys.length ? "▸" : "" });
+        if (key !== null) {
+            node.keyEl = row.createEl("span", { cls: "imgmeta-json-key", text: key });
+            row.createEl("span", { cls: "imgmeta-json-punct", text: ": " });
+        }
+        if (container) {
+            const arr = Array.isArray(value);
+            const n = node.keys.length;
+            const summary = row.createEl("span", { cls: "imgmeta-json-summary", text: arr ? `[${n}]` : `{${n}}` });
+            if (n) {
+                node.toggle = toggle;
+                node.childrenEl = parentEl.createDiv({ cls: "imgmeta-json-children" });
+                node.childrenEl.toggle(false);
+                const flip = () => this.setExpanded(node, !node.expanded);
+                toggle.onclick = flip;
+                summary.onclick = flip;
+            }
+        } else {
+            const kind = value === null ? "null" : typeof value;
+            // Strings unquoted (CSS adds the quotes) so search offsets match the value
+            node.valueEl = row.createEl("span", { cls: `imgmeta-json-value imgmeta-json-value--${kind}`, text: jsonSearchText(value) });
+        }
+
+        const actions = row.createEl("span", { cls: "imgmeta-json-actions" });
+        const pathBtn = actions.createEl("button", { cls: "imgmeta-inline-btn", text: "Path" });
+        pathBtn.setAttr("aria-label", `Copy ${path}`);
+        pathBtn.onclick = () => this.copy(path);
+        const valueBtn = actions.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+        valueBtn.setAttr("aria-label", "Copy value");
+        valueBtn.onclick = () => this.copy(typeof value === "string" ? value : JSON.stringify(value, null, 2));
+        return node;
+    }
+
+    private setExpanded(node: TreeNode, open: boolean) {
+        if (!node.childrenEl || node.expanded === open) return;
+        node.expanded = open;
+        if (open && node.shown === 0) this.renderChildren(node, PAGE_SIZE);
+        node.childrenEl.toggle(open);
+        node.toggle?.setText(open ? "▾" : "▸");
+    }
+
+    // Render children up to `upTo` (rounded up to a page); a "Show more" row covers the rest
+    private renderChildren(node: TreeNode, upTo: number) {
+        const el = node.childrenEl;
+        if (!el) return;
+        node.moreEl?.remove();
+        node.moreEl = null;
+        const end = Math.min(node.keys.length, Math.max(upTo, node.shown + PAGE_SIZE));
+        const obj = node.value as Record<string, unknown>;
+        const arr = Array.isArray(obj);
+        for (let i = node.shown; i < end; i++) {
+            const k = node.keys[i];
+            node.children[k] = this.createNode(el, k, obj[k], jsonPath(node.path, k, arr), node.depth + 1);
+        }
+        node.shown = end;
+        const rest = node.keys.length - end;
+        if (rest > 0) {
+            const more = el.createDiv({ cls: "imgmeta-json-row imgmeta-json-more" });
+            more.style.paddingLeft = `${(node.depth + 1) * INDENT_PX}px`;
+            const link = more.createEl("a", { text: `Show ${Math.min(rest, PAGE_SIZE)} more of ${rest}`, href: "#" });
+            link.onclick = (ev) => { ev.preventDefault(); this.renderChildren(node, node.shown + PAGE_SIZE); };
+            node.moreEl = more;
+        }
+    }
+}
+
+type JsonSection = { value: unknown; tree: () => JsonTree };
+const sections = new WeakMap<HTMLDetailsElement, JsonSection>();
+
+/**
+ * Collapsed section with a JSON tree built on first expand and a Copy button
+ * (pretty-printed JSON) in its summary. The tree goes into a box created up
+ * front, so controls the caller appends after it stay below the tree.
+ */
+export function renderJsonSection(
+    parent: HTMLElement,
+    title: string,
+    value: unknown,
+    copy: (text: string) => unknown
+): HTMLDetailsElement {
+    const details = parent.createEl("details", { cls: "imgmeta-details imgmeta-json-section" });
+    const sum = details.createEl("summary");
+    sum.setText(title);
+    const copyBtn = sum.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+    copyBtn.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copy(JSON.stringify(value, null, 2)); };
+    const box = details.createDiv({ cls: "imgmeta-prebox imgmeta-json-box" });
+    let tree: JsonTree | null = null;
+    const build = () => tree ?? (tree = new JsonTree(box, value, copy));
+    details.addEventListener("toggle", () => { if (details.open) build(); });
+    sections.set(details, { value, tree: build });
+    return details;
+}
+
+/** Data shown by a section from `renderJsonSection`, or undefined for other elements. */
+export function jsonSectionValue(details: HTMLDetailsElement): unknown {
+    return sections.get(details)?.value;
+}
+
+/** Open a JSON section and return its tree, building it now rather than on the toggle event. */
+export function openJsonSection(details: HTMLDetailsElement): JsonTree | null {
+    const section = sections.get(details);
+    if (!section) return null;
+    const tree = section.tree();
+    details.open = true;
+    return tree;
+}
@@ -1,20 +1,70 @@
 import { App, Modal, Notice, Plugin, TFile, WorkspaceLeaf, addIcon } from "obsidian";
-import { parseImageMeta } from "./parser";
 import { ImageMetaModal } from "./ui";
 import { ImageMetaView, VIEW_TYPE_IMGMETA } from "./view";
+import { DEFAULT_SETTINGS, ImageMetaSettingTab, isEnabledExtension, mergeSettings } from "./settings";
+import { MetadataIndex } from "./indexer";
+import { ParseCache } from "./cache";
+import { ParserWorker } from "./parseworker";
+import { ImagePromptsView, VIEW_TYPE_IMGPROMPTS } from "./prompts";
+import type { ImageMetaSettings } from "./settings";
 
 const ICON_ID = "imgmeta-icon";
+// Per-file parse budget; after it the fast first pass is shown as a partial result
+const PARSE_TIMEOUT_MS = 10000;
 
 addIcon(ICON_ID, `<svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4 4h16v16H4z" fill="none" stroke="currentColor"/><path d="M7 10h10M7 14h6" stroke="currentColor"/></svg>`);
 
 export default class ImageMetadataViewerPlugin extends Plugin {
+    settings: ImageMetaSettings = { ...DEFAULT_SETTINGS };
+    // Parsed object_info export, reused until the file changes
+    private objectInfoCache: { path: string; mtime: number; data: Record<string, unknown> } | null = null;
+    parser!: ParserWorker;
+    cache!: ParseCache;
+    index!: MetadataIndex;
+
     async onload() {
+        await this.loadSettings();
+        this.addSettingTab(new ImageMetaSettingTab(this.app, this));
+
+        // Parse results cached in the plugin folder; every reader goes through it
+        this.parser = new ParserWorker(PARSE_TIMEOUT_MS);
+        this.cache = new ParseCache(this.app, `${this.manifest.dir}/cache`, this.parser, () => ({ stealth: this.settings.stealth }));
+        this.registerEvent(this.app.vault.on("modify", (f) => { void this.cache.invalidate(f.path); }));
+        this.registerEvent(this.app.vault.on("delete", (f) => { void this.cache.invalidate(f.path); }));
+        this.registerEvent(this.app.vault.on("rename", (_f, oldPath) => { void this.cache.invalidate(oldPath); }));
+        this.addCommand({
+            id: "imgmeta-clear-cache",
+            name: "Clear metadata cache",
+            callback: async () => { await this.cache.clear(); new Notice("Metadata cache cleared"); }
+        });
+
         // Register persistent right sidebar view
         this.registerView(
             VIEW_TYPE_IMGMETA,
-            (leaf) => new ImageMetaView(leaf, this.app)
+            (leaf) => new ImageMetaView(leaf, this)
         );
 
+        // Vault-wide metadata index and its search view
+        this.index = new MetadataIndex(this.app, `${this.manifest.dir}/index.json`, this.cache, (f) => this.isSupported(f));
+        this.registerView(
+            VIEW_TYPE_IMGPROMPTS,
+            (leaf) => new ImagePromptsView(leaf, this.index)
+        );
+        this.addCommand({
+            id: "imgmeta-open-prompts-view",
+            name: "Search image prompts",
+            callback: () => this.activatePromptsView()
+        });
+        // Vault events fire for every file while the vault loads; start once the layout is ready
+        this.app.workspace.onLayoutReady(async () => {
+            await this.index.load();
+            this.index.scanVault();
+            this.registerEvent(this.app.vault.on("create", (f) => this.index.onCreateOrModify(f)));
+            this.registerEvent(this.app.vault.on("modify", (f) => this.index.onCreateOrModify(f)));
+            this.registerEvent(this.app.vault.on("delete", (f) => this.index.onDelete(f)));
+            this.registerEvent(this.app.vault.on("rename", (f, oldPath) => this.index.onRename(f, oldPath)));
+        });
+
         // Ribbon: open modal (generic label)
         this.addRibbonIcon(ICON_ID, "Show image metadata (modal)", async () => {
             await this.showCurrentFileMetadata();
@@ -66,15 +116,14 @@ export default class ImageMetadataViewerPlugin extends Plugin {
             this.app.workspace.on("file-open", async (file) => {
                 const target = await this.resolveTargetForView(file ?? null);
                 const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_IMGMETA);
-                if (target) {
-                    if (leaves.length === 0) {
-                        await this.activateView();
-                    }
+                if (target && leaves.length === 0 && this.settings.autoOpenSidebar) {
+                    await this.activateView();
                 }
+                // Debounced per view; stale renders are discarded by the view itself
                 const updateLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_IMGMETA);
                 for (const leaf of updateLeaves) {
                     if (leaf.view instanceof ImageMetaView) {
-                        await (leaf.view as ImageMetaView).renderForFile(target);
+                        (leaf.view as ImageMetaView).requestRender(target);
                     }
                 }
             })
@@ -83,7 +132,7 @@ export default class ImageMetadataViewerPlugin extends Plugin {
         // File menu item
         this.registerEvent(
             this.app.workspace.on("file-menu", (menu, file) => {
-                if (file instanceof TFile && this.isImage(file)) {
+                if (file instanceof TFile && this.isSupported(file)) {
                     // Open modal
                     menu.addItem((item) =>
                         item
@@ -106,17 +155,60 @@ export default class ImageMetadataViewerPlugin extends Plugin {
         // altering default interactions in Markdown views.
     }
 
-    onunload() { }
+    async onunload() {
+        this.parser?.destroy();
+        if (!this.index) return;
+        this.index.stop();
+        await this.index.save();
+    }
 
-    private isImage(file: TFile) {
-        const ext = file.extension.toLowerCase();
-        return ["png", "jpg", "jpeg", "webp"].includes(ext);
+    async loadSettings() {
+        this.settings = mergeSettings(await this.loadData());
+    }
+
+    /** Persist settings and re-render views; `rescan` after format or parse option changes. */
+    async saveSettings(rescan = false) {
+        await this.saveData(this.settings);
+        // Index newly enabled files, drop disabled ones and re-parse entries from other parse options
+        if (rescan) this.index?.scanVault();
+        this.refreshViews();
+    }
+
+    // Re-render open sidebar views so section and format settings apply at once
+    private refreshViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_IMGMETA)) {
+            if (leaf.view instanceof ImageMetaView) leaf.view.refresh();
+        }
+    }
+
+    // Installed ComfyUI node types from the configured object_info export; null when unset or unreadable
+    async loadObjectInfo(): Promise<Record<string, unknown> | null> {
+        const path = this.settings.objectInfoPath;
+        if (!path) return null;
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return null;
+        const cached = this.objectInfoCache;
+        if (cached && cached.path === path && cached.mtime === file.stat.mtime) return cached.data;
+        try {
+            const data = JSON.parse(await this.app.vault.cachedRead(file));
+            if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+            this.objectInfoCache = { path, mtime: file.stat.mtime, data };
+            return data;
+        } catch (e) {
+            console.warn("Failed to read object_info", e);
+            return null;
+        }
+    }
+
+    // Images plus video containers that may carry ComfyUI metadata, limited to the enabled formats
+    isSupported(file: TFile) {
+        return isEnabledExtension(this.settings, file.extension);
     }
 
     // If a markdown file has exactly one embedded image, resolve it; otherwise null.
     private async resolveTargetForView(file: TFile | null): Promise<TFile | null> {
         if (!file) return null;
-        if (this.isImage(file)) return file;
+        if (this.isSupported(file)) return file;
         const ext = file.extension.toLowerCase();
         if (ext !== "md") return null;
         try {
@@ -125,7 +217,7 @@ export default class ImageMetadataViewerPlugin extends Plugin {
             const pushIfImage = (link: string | undefined) => {
                 if (!link) return;
                 const dest = this.app.metadataCache.getFirstLinkpathDest(link, file.path);
-                if (dest && dest instanceof TFile && this.isImage(dest)) candidates.push(dest);
+                if (dest && dest instanceof TFile && this.isSupported(dest)) candidates.push(dest);
             };
             // Only consider embeds (e.g., ![[...]] or ![...](...)) which render images
             if (cache?.embeds) {
@@ -141,15 +233,15 @@ export default class ImageMetadataViewerPlugin extends Plugin {
     private async showCurrentFileMetadata() {
         const file = this.app.workspace.getActiveFile();
         if (!file) return new Notice("No active file");
-        if (!(file instanceof TFile) || !this.isImage(file)) return new Notice("Not an image file");
+        if (!(file instanceof TFile) || !this.isSupported(file)) return new Notice("Not a supported file");
         await this.openForFile(file);
     }
 
     private async openForFile(file: TFile) {
         try {
-            const buf = await this.app.vault.adapter.readBinary(file.path);
-            const meta = await parseImageMeta(buf, file.extension.toLowerCase());
-            new ImageMetaModal(this.app, file, meta).open();
+            const meta = await this.cache.get(file, { priority: "high" });
+            const objectInfo = await this.loadObjectInfo();
+            new ImageMetaModal(this.app, file, meta, this.settings, objectInfo).open();
         } catch (e) {
             console.error(e);
             new Notice("Failed to read metadata");
@@ -169,5 +261,12 @@ export default class ImageMetadataViewerPlugin extends Plugin {
             await (leaf.view as ImageMetaView).renderForFile(activeOrProvided ?? null);
         }
     }
+
+    async activatePromptsView() {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_IMGPROMPTS)[0] ?? this.app.workspace.getLeftLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: VIEW_TYPE_IMGPROMPTS, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
     // Removed private DOM traversal helper; using workspace.getLeavesOfType instead
 }
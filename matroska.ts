@@ -0,0 +1,91 @@
+/**
+ * Minimal EBML/Matroska reader for WebM/MKV tag metadata.
+ *
+ * Walks Segment → Tags → Tag → SimpleTag and returns TagName/TagString pairs.
+ * Clusters (media data) are skipped by size and never decoded.
+ */
+const ID_EBML = 0x1a45dfa3;
+const ID_SEGMENT = 0x18538067;
+const ID_TAGS = 0x1254c367;
+const ID_TAG = 0x7373;
+const ID_SIMPLE_TAG = 0x67c8;
+const ID_TAG_NAME = 0x45a3;
+const ID_TAG_STRING = 0x4487;
+
+type Element = { id: number; dataStart: number; dataEnd: number; unknownSize: boolean };
+
+// EBML variable-length integer. IDs keep their length marker; sizes do not.
+function readVint(u8: Uint8Array, o: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } | null {
+    const first = u8[o];
+    if (first === undefined || first === 0) return null;
+    let length = 1;
+    let mask = 0x80;
+    while (!(first & mask)) { mask >>= 1; length++; }
+    if (o + length > u8.length) return null;
+    let value = keepMarker ? first : first & (mask - 1);
+    let allOnes = (first & (mask - 1)) === mask - 1;
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + u8[o + i];
+        if (u8[o + i] !== 0xff) allOnes = false;
+    }
+    return { value, length, allOnes };
+}
+
+function readElement(u8: Uint8Array, o: number, end: number): Element | null {
+    const id = readVint(u8, o, true);
+    if (!id) return null;
+    const size = readVint(u8, o + id.length, false);
+    if (!size) return null;
+    const dataStart = o + id.length + size.length;
+    const unknownSize = size.allOnes;
+    const dataEnd = unknownSize ? end : dataStart + size.value;
+    if (dataEnd > end) return null;
+    return { id: id.value, dataStart, dataEnd, unknownSize };
+}
+
+export function isMatroska(u8: Uint8Array): boolean {
+    return u8.length >= 4 && ((u8[0] << 24) | (u8[1] << 16) | (u8[2] << 8) | u8[3]) >>> 0 === ID_EBML;
+}
+
+/** Collect SimpleTag name → string pairs (first occurrence wins; names as written, usually upper-case). */
+export function readMatroskaTags(u8: Uint8Array): Record<string, string> {
+    const out: Record<string, string> = {};
+    if (!isMatroska(u8)) return out;
+    const decode = (a: number, b: number) => {
+        try { return new TextDecoder("utf-8").decode(u8.subarray(a, b)).replace(/\u0000+$/g, ""); } catch { return ""; }
+    };
+
+    const readSimpleTag = (el: Element) => {
+        let name = "";
+        let value: string | null = null;
+        let p = el.dataStart;
+        while (p < el.dataEnd) {
+            const c = readElement(u8, p, el.dataEnd);
+            if (!c) break;
+            if (c.id === ID_TAG_NAME) name = decode(c.dataStart, c.dataEnd);
+            else if (c.id === ID_TAG_STRING) value = decode(c.dataStart, c.dataEnd);
+            else if (c.id === ID_SIMPLE_TAG) readSimpleTag(c);
+            p = c.dataEnd;
+        }
+        if (name && value !== null && !(name in out)) out[name] = value;
+    };
+
+    // Descend only into the masters on the path to SimpleTag
+    const walk = (start: number, end: number) => {
+        let p = start;
+        while (p < end) {
+            const el = readElement(u8, p, end);
+            if (!el) return;
+            if (el.id === ID_SEGMENT || el.id === ID_TAGS || el.id === ID_TAG) {
+                walk(el.dataStart, el.dataEnd);
+            } else if (el.id === ID_SIMPLE_TAG) {
+                readSimpleTag(el);
+            } else if (el.unknownSize) {
+                return; // e.g. a live-streamed Cluster: cannot skip without parsing blocks
+            }
+            p = el.dataEnd;
+        }
+    };
+    walk(0, u8.length);
+    return out;
+}
@@ -0,0 +1,91 @@
+/**
+ * NovelAI generation metadata.
+ *
+ * NovelAI PNGs carry three text chunks:
+ *   Software: "NovelAI"
+ *   Source:   model name, e.g. "NovelAI Diffusion V4.5 4BDE2A90"
+ *   Comment:  JSON request, e.g. {"prompt": "...", "uc": "...", "steps": 28, "scale": 5, ...}
+ *
+ * V4 models add `v4_prompt` / `v4_negative_prompt` with a base caption and
+ * per-character captions (each with normalized center coordinates).
+ */
+export type NovelAICharacter = {
+    prompt: string;
+    negativePrompt?: string;
+    /** "x,y" in 0..1 image coordinates, when the request uses coordinates */
+    center?: string;
+};
+
+// Comment JSON key → field name (same names as the A1111/ComfyUI fields)
+const NUMBER_FIELDS: Record<string, string> = {
+    "steps": "steps",
+    "scale": "cfg_scale",
+    "seed": "seed",
+    "width": "width",
+    "height": "height",
+    "strength": "denoise",
+    "noise": "noise",
+    "cfg_rescale": "cfg_rescale",
+};
+const STRING_FIELDS: Record<string, string> = {
+    "sampler": "sampler",
+    "noise_schedule": "scheduler",
+    "request_type": "request_type",
+};
+
+/** True when the Comment JSON (or the surrounding chunks) look like a NovelAI request. */
+export function isNovelAIComment(comment: any, raw: Record<string, string>): boolean {
+    if (!comment || typeof comment !== "object" || Array.isArray(comment)) return false;
+    const hasPrompt = typeof comment.prompt === "string" || (comment.v4_prompt && typeof comment.v4_prompt === "object");
+    if (!hasPrompt) return false;
+    if (/novelai/i.test(raw["Software"] ?? "") || /novelai/i.test(raw["Source"] ?? "")) return true;
+    return "uc" in comment || "v4_prompt" in comment;
+}
+
+/** Map a NovelAI Comment request onto normalized fields. */
+export function extractNovelAI(comment: any, raw: Record<string, string>): Record<string, unknown> {
+    const out: Record<string, unknown> = { generator: "NovelAI" };
+    const v4p = comment.v4_prompt?.caption;
+    const v4n = comment.v4_negative_prompt?.caption;
+
+    // V4 keeps `prompt`/`uc` in sync with the base captions; prefer the flat values
+    const prompt = typeof comment.prompt === "string" ? comment.prompt : v4p?.base_caption;
+    const uc = typeof comment.uc === "string" ? comment.uc : v4n?.base_caption;
+    if (typeof prompt === "string") out["prompt"] = prompt;
+    if (typeof uc === "string" && uc) out["negative_prompt"] = uc;
+
+    for (const [k, name] of Object.entries(NUMBER_FIELDS)) {
+        if (typeof comment[k] === "number") out[name] = comment[k];
+    }
+    for (const [k, name] of Object.entries(STRING_FIELDS)) {
+        if (typeof comment[k] === "string" && comment[k]) out[name] = comment[k];
+    }
+    if (typeof out["width"] === "number" && typeof out["height"] === "number") out["size"] = `${out["width"]}x${out["height"]}`;
+    if (raw["Source"]) out["model"] = raw["Source"];
+    if (raw["Software"]) out["software"] = raw["Software"];
+
+    const characters = readCharacters(comment, v4p, v4n);
+    if (characters.length) out["characters"] = characters;
+    return out;
+}
+
+// V4 per-character captions; positive and negative lists are index-aligned
+function readCharacters(comment: any, v4p: any, v4n: any): NovelAICharacter[] {
+    const pos: any[] = Array.isArray(v4p?.char_captions) ? v4p.char_captions : [];
+    const neg: any[] = Array.isArray(v4n?.char_captions) ? v4n.char_captions : [];
+    const useCoords = comment.v4_prompt?.use_coords !== false;
+    const out: NovelAICharacter[] = [];
+    for (let i = 0; i < pos.length; i++) {
+        const c = pos[i];
+        if (!c || typeof c.char_caption !== "string") continue;
+        const ch: NovelAICharacter = { prompt: c.char_caption };
+        const n = neg[i]?.char_caption;
+        if (typeof n === "string" && n) ch.negativePrompt = n;
+        const center = Array.isArray(c.centers) ? c.centers[0] : null;
+        if (useCoords && center && typeof center.x === "number" && typeof center.y === "number") {
+            ch.center = `${center.x},${center.y}`;
+        }
+        out.push(ch);
+    }
+    return out;
+}
@@ -1,4 +1,14 @@
 import { unzipSync, strFromU8, inflateSync } from "fflate";
+import { parseA1111Parameters, type GenerationParams } from "./a1111";
+import { readHeifItems, detectHeifFormat, readMp4Tags } from "./bmff";
+import { isMatroska, readMatroskaTags } from "./matroska";
+import { isGif, readGif } from "./gif";
+import { extractGeneratorFields, isGeneratorJson } from "./generators";
+import { summarizeComfyGraph, comfySummaryToFields, isComfyUiWorkflow, uiWorkflowToApiGraph } from "./comfy";
+import { readStealthPngInfo } from "./stealth";
+import { readExif, extractCameraInfo, extractGpsInfo, type CameraInfo, type GpsInfo } from "./exif";
+export type { GenerationParams } from "./a1111";
+export type { CameraInfo, GpsInfo } from "./exif";
 /**
  * Lightweight image metadata parsing for PNG/JPEG/WEBP.
  *
@@ -8,23 +18,106 @@ import { unzipSync, strFromU8, inflateSync } from "fflate";
  * - Preserve original text (prompts/Negative prompt/settings) without "cleanups".
  * - Normalize common AI parameters (A1111/ComfyUI) into fields for the UI.
  */
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif" | "avif" | "heic" | "mp4" | "webm";
+/** File extensions the plugin opens (lower-case, without the dot). */
+export const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp", "gif", "avif", "heic", "heif"];
+/** Video containers read for embedded ComfyUI metadata only (no frames are decoded). */
+export const VIDEO_EXTENSIONS = ["mp4", "webm"];
+export const SUPPORTED_EXTENSIONS = [...IMAGE_EXTENSIONS, ...VIDEO_EXTENSIONS];
 export type ImageMeta = {
-    format: "png" | "jpeg" | "webp" | "unknown";
+    format: ImageFormat | "unknown";
     fields: Record<string, unknown>;
     raw: Record<string, string>;
+    /** Typed A1111-style generation settings, when a parameters block was found. */
+    params?: GenerationParams;
+    /** Photographic EXIF summary (camera, exposure, lens, dates, orientation). */
+    camera?: CameraInfo;
+    /** Location from the EXIF GPS IFD; presence means the file leaks where it was taken. */
+    gps?: GpsInfo;
+    /** Container-level facts (dimensions, color, resolution, timestamps, ICC). */
+    file?: FileInfo;
+    /** Parsing timed out; recovery scans and stealth decoding did not finish. */
+    partial?: boolean;
+    /** Parsed from a header-only read of a file too large to read whole; recovery scans and stealth decoding were skipped. */
+    headOnly?: boolean;
 };
-export async function parseImageMeta(buf: ArrayBuffer, ext: string): Promise<ImageMeta> {
+export type FileInfo = {
+    width?: number;
+    height?: number;
+    bitDepth?: number;
+    colorType?: string;
+    interlaced?: boolean;
+    dpiX?: number;
+    dpiY?: number;
+    /** ISO 8601 (UTC) */
+    modified?: string;
+    gamma?: number;
+    srgbIntent?: string;
+    iccProfile?: string;
+    /** Animation (APNG/GIF/WebP): frame count */
+    frames?: number;
+    /** 0 = infinite */
+    loopCount?: number;
+    /** Sum of frame delays */
+    durationMs?: number;
+    /** WebP bitstream: "VP8 (lossy)" / "VP8L (lossless)" */
+    codec?: string;
+    alpha?: boolean;
+    /** WebP VP8X feature flags (ICC, Alpha, EXIF, XMP, Animation) */
+    features?: string[];
+    /** WebP: size of the ICCP chunk, 0 when absent */
+    iccBytes?: number;
+    /** WebP: top-level chunk order, repeated chunks as `ANMF×N` */
+    chunks?: string[];
+    /** PNG: where a stealth LSB payload was found, e.g. "Alpha LSB (compressed)" */
+    stealth?: string;
+};
+export type ParseOptions = {
+    /** Decode PNG pixels for a stealth LSB payload when no text metadata is present (default: true). */
+    stealth?: boolean;
+    /**
+     * Run the whole-file recovery scans (JSON, UTF-16, Shift_JIS) when no or garbled
+     * parameters were found (default: true). Off for the fast first pass of the worker.
+     */
+    recover?: boolean;
+};
+export async function parseImageMeta(buf: ArrayBuffer, ext: string, opts: ParseOptions = {}): Promise<ImageMeta> {
     const u8 = new Uint8Array(buf);
     const lower = (ext || "").toLowerCase();
     const detected = detectFormatByHeader(u8);
-    const fmt = detected !== "unknown" ? detected : (lower === "jpg" ? "jpeg" : (lower as any));
-    if (fmt === "png") return parsePng(u8);
-    if (fmt === "jpeg") return parseJpeg(u8);
-    if (fmt === "webp") return parseWebp(u8);
-    return { format: "unknown", fields: {}, raw: {} };
+    const fmt = detected !== "unknown" ? detected : (lower === "jpg" ? "jpeg" : lower === "heif" ? "heic" : (lower as any));
+    let meta: ImageMeta;
+    if (fmt === "png") meta = parsePng(u8, opts);
+    else if (fmt === "jpeg") meta = parseJpeg(u8, opts);
+    else if (fmt === "webp") meta = parseWebp(u8, opts);
+    else if (fmt === "gif") meta = parseGif(u8);
+    else if (fmt === "avif" || fmt === "heic") meta = parseHeif(u8, fmt, opts);
+    else if (fmt === "mp4" || fmt === "webm") meta = parseVideo(u8, fmt);
+    else return { format: "unknown", fields: {}, raw: {} };
+    const params = looksLikeJsonObject(meta.raw["parameters"] ?? "") ? null : parseA1111Parameters(meta.raw["parameters"]);
+    if (params) meta.params = params;
+    return meta;
+}
+
+/**
+ * True when a result parsed with `recover: false, stealth: false` (e.g. from a
+ * header-only read) would change with the whole file: no or garbled parameters
+ * trigger the recovery scans, and an RGB/RGBA PNG without text may carry a
+ * stealth payload in its pixels.
+ */
+export function needsFullFile(meta: ImageMeta, opts: ParseOptions = {}): boolean {
+    if (meta.format === "png") {
+        const color = meta.file?.colorType;
+        return opts.stealth !== false && !hasGenerationText(meta.raw) && (color === "RGBA" || color === "RGB");
+    }
+    if (meta.format === "jpeg" || meta.format === "webp" || meta.format === "avif" || meta.format === "heic") {
+        const p = meta.raw["parameters"];
+        return opts.recover !== false && (!p || looksGarbled(p));
+    }
+    return false;
 }
 
-function detectFormatByHeader(u8: Uint8Array): "png" | "jpeg" | "webp" | "unknown" {
+function detectFormatByHeader(u8: Uint8Array): ImageFormat | "unknown" {
     if (u8.length >= 8) {
         const pngSig = [137, 80, 78, 71, 13, 10, 26, 10];
         let isPng = true; for (let i = 0; i < 8; i++) if (u8[i] !== pngSig[i]) { isPng = false; break; }
@@ -37,20 +130,33 @@ function detectFormatByHeader(u8: Uint8Array): "png" | "jpeg" | "webp" | "unknow
         }
     }
     if (u8.length >= 2 && u8[0] === 0xff && u8[1] === 0xd8) return "jpeg";
+    if (isGif(u8)) return "gif";
+    const heif = detectHeifFormat(u8);
+    if (heif) return heif;
+    // Any other ftyp-based file is treated as an MP4/QuickTime movie
+    if (u8.length >= 8 && u8[4] === 0x66 && u8[5] === 0x74 && u8[6] === 0x79 && u8[7] === 0x70) return "mp4";
+    if (isMatroska(u8)) return "webm";
     return "unknown";
 }
 // ---- PNG ----
-function parsePng(u8: Uint8Array): ImageMeta {
+function parsePng(u8: Uint8Array, opts: ParseOptions = {}): ImageMeta {
     const pngSig = [137, 80, 78, 71, 13, 10, 26, 10];
     for (let i = 0; i < 8; i++) if (u8[i] !== pngSig[i]) return { format: "png", fields: {}, raw: {} };
     let off = 8;
     const raw: Record<string, string> = {};
+    const file: FileInfo = {};
+    let exifChunk: Uint8Array | null = null;
     while (off + 8 <= u8.length) {
         const len = readU32(u8, off); off += 4;
         const type = strFromU8(u8.subarray(off, off + 4)); off += 4;
         const data = u8.subarray(off, off + len); off += len;
         off += 4; // skip CRC
-        if (type === "tEXt") {
+        if (type === "IHDR" || type === "pHYs" || type === "tIME" || type === "gAMA" || type === "sRGB" || type === "iCCP" ||
+            type === "acTL" || type === "fcTL") {
+            try { readPngInfoChunk(type, data, file); } catch { /* ignore */ }
+        } else if (type === "eXIf") {
+            exifChunk = data;
+        } else if (type === "tEXt") {
             const { key, text } = parse_tEXt(data);
             if (key) raw[key] = text;
         } else if (type === "iTXt") {
@@ -62,8 +168,102 @@ function parsePng(u8: Uint8Array): ImageMeta {
         }
         if (type === "IEND") break;
     }
+    // eXIf (PNG 1.5+) holds a bare TIFF structure; run it through the same EXIF text pipeline
+    const exifPayload = exifChunk && exifChunk.length >= 8 ? withExifHeader(exifChunk) : null;
+    if (exifPayload) {
+        try {
+            const multi = extractExifTextsFromBytes(exifPayload);
+            if (multi) {
+                const comfyPrompt = stripPrefixedValue(multi.model, "prompt:");
+                const comfyWorkflow = stripPrefixedValue(multi.make, "workflow:");
+                if (comfyPrompt && !raw["prompt"]) raw["prompt"] = comfyPrompt;
+                if (comfyWorkflow && !raw["workflow"]) raw["workflow"] = comfyWorkflow;
+                const exifTexts = [multi.user, multi.xp, multi.desc].filter((t): t is string => !!t);
+                if (exifTexts.length) {
+                    raw["EXIF"] = exifTexts.join("\n");
+                    if (!raw["parameters"]) {
+                        const selected = selectBestParametersFromTexts(exifTexts);
+                        if (selected) raw["parameters"] = selected;
+                    }
+                }
+            }
+        } catch { /* ignore */ }
+    }
+    // Text chunks stripped: look for a payload hidden in the pixel LSBs
+    if (opts.stealth !== false && !hasGenerationText(raw) && (file.colorType === "RGBA" || file.colorType === "RGB")) {
+        try { readStealthInto(u8, raw, file); } catch { /* ignore */ }
+    }
     const fields = normalizeKnownFields(raw);
-    return { format: "png", fields, raw };
+    const meta: ImageMeta = { format: "png", fields, raw };
+    if (Object.keys(file).length) meta.file = file;
+    if (exifPayload) attachExifSections(meta, exifPayload);
+    return meta;
+}
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+    0: "Grayscale", 2: "RGB", 3: "Indexed", 4: "Grayscale + alpha", 6: "RGBA",
+};
+const SRGB_INTENTS: Record<number, string> = {
+    0: "Perceptual", 1: "Relative colorimetric", 2: "Saturation", 3: "Absolute colorimetric",
+};
+
+const GENERATION_KEYS = ["parameters", "prompt", "workflow", "Comment"];
+function hasGenerationText(raw: Record<string, string>): boolean {
+    return GENERATION_KEYS.some((k) => !!raw[k]);
+}
+
+// Stealth payloads are either a JSON object of text chunks (NovelAI) or an A1111 parameters block
+function readStealthInto(u8: Uint8Array, raw: Record<string, string>, file: FileInfo) {
+    const found = readStealthPngInfo(u8);
+    if (!found) return;
+    file.stealth = `${found.mode === "alpha" ? "Alpha" : "RGB"} LSB${found.compressed ? " (compressed)" : ""}`;
+    let obj: any = null;
+    try { obj = JSON.parse(found.text); } catch { /* plain text */ }
+    if (obj && typeof obj === "object" && !Array.isArray(obj)) {
+        for (const [k, v] of Object.entries(obj)) {
+            if (v === null || v === undefined || raw[k]) continue;
+            raw[k] = typeof v === "string" ? v : JSON.stringify(v);
+        }
+    } else if (!raw["parameters"]) {
+        raw["parameters"] = found.text;
+    }
+}
+
+// Structural PNG chunks → FileInfo
+function readPngInfoChunk(type: string, data: Uint8Array, file: FileInfo) {
+    if (type === "IHDR" && data.length >= 13) {
+        file.width = readU32(data, 0);
+        file.height = readU32(data, 4);
+        file.bitDepth = data[8];
+        file.colorType = PNG_COLOR_TYPES[data[9]] ?? String(data[9]);
+        file.interlaced = data[12] === 1;
+    } else if (type === "pHYs" && data.length >= 9) {
+        // Unit 1 = pixels per metre; unit 0 only gives the aspect ratio
+        if (data[8] === 1) {
+            file.dpiX = Math.round(readU32(data, 0) * 0.0254);
+            file.dpiY = Math.round(readU32(data, 4) * 0.0254);
+        }
+    } else if (type === "tIME" && data.length >= 7) {
+        const pad = (n: number) => String(n).padStart(2, "0");
+        const year = (data[0] << 8) | data[1];
+        file.modified = `${year}-${pad(data[2])}-${pad(data[3])}T${pad(data[4])}:${pad(data[5])}:${pad(data[6])}Z`;
+    } else if (type === "gAMA" && data.length >= 4) {
+        file.gamma = readU32(data, 0) / 100000;
+    } else if (type === "sRGB" && data.length >= 1) {
+        file.srgbIntent = SRGB_INTENTS[data[0]] ?? String(data[0]);
+    } else if (type === "iCCP") {
+        const zero = data.indexOf(0);
+        if (zero > 0) file.iccProfile = latin1FromU8(data.subarray(0, zero));
+    } else if (type === "acTL" && data.length >= 8) {
+        // APNG animation control: frame count and play count (0 = infinite)
+        file.frames = readU32(data, 0);
+        file.loopCount = readU32(data, 4);
+    } else if (type === "fcTL" && data.length >= 26) {
+        // APNG frame control: delay_num / delay_den seconds (den 0 means 1/100 s)
+        const num = (data[20] << 8) | data[21];
+        const den = ((data[22] << 8) | data[23]) || 100;
+        file.durationMs = (file.durationMs ?? 0) + Math.round((num / den) * 1000);
+    }
 }
 function readU32(u8: Uint8Array, o: number) {
     return (u8[o] << 24 | u8[o + 1] << 16 | u8[o + 2] << 8 | u8[o + 3]) >>> 0;
@@ -122,16 +322,13 @@ function latin1FromU8(u: Uint8Array): string {
 function normalizeKnownFields(raw: Record<string, string>): Record<string, unknown> {
     const out: Record<string, unknown> = {};
     // AUTOMATIC1111-style: key = "parameters"
-    //   - line 1: prompt
-    //   - subsequent lines: key: value
+    //   - prompt lines, then "Negative prompt:" lines
+    //   - last line: comma-separated settings (see a1111.ts)
     if (raw["parameters"]) {
         const txt = raw["parameters"]; out["parameters_raw"] = txt;
-        const lines = txt.split(/\r?\n/);
-        if (lines.length) out["prompt"] = lines[0];
-        for (const ln of lines.slice(1)) {
-            const m = ln.match(/^([^:]+):\s*(.*)$/);
-            if (m) out[m[1].trim()] = m[2].trim();
-        }
+        // Fooocus/SwarmUI write JSON under the same key; leave that to the generator adapters
+        const params = looksLikeJsonObject(txt) ? null : parseA1111Parameters(txt);
+        if (params) Object.assign(out, generationParamsToFields(params));
         // NovelAI/ComfyUI, etc.: key = "prompt" or JSON blob
         for (const k of ["prompt", "negative_prompt", "Prompt", "Negative prompt"]) {
             if (raw[k]) out[k.replace(/\s+/g, "_")] = raw[k];
@@ -145,6 +342,10 @@ function normalizeKnownFields(raw: Record<string, string>): Record<string, unkno
         }
     }
 
+    // NovelAI/InvokeAI/Fooocus/SwarmUI JSON schemas (see generators.ts)
+    const gen = extractGeneratorFields(raw, out);
+    if (gen) Object.assign(out, gen);
+
     // ComfyUI support: extract common fields from prompt/workflow JSON
     try {
         const comfy = extractComfy(out);
@@ -153,6 +354,39 @@ function normalizeKnownFields(raw: Record<string, string>): Record<string, unkno
     return out;
 }
 
+// Flatten typed A1111 params into fields, using the same names as the ComfyUI extraction.
+// Settings without a typed slot keep their original labels.
+function generationParamsToFields(p: GenerationParams): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    const put = (k: string, v: unknown) => { if (v !== undefined && v !== "") out[k] = v; };
+    put("prompt", p.prompt);
+    put("negative_prompt", p.negativePrompt);
+    put("steps", p.steps);
+    put("sampler", p.sampler);
+    put("scheduler", p.scheduleType);
+    put("cfg_scale", p.cfgScale);
+    put("seed", p.seed);
+    if (p.width !== undefined && p.height !== undefined) {
+        out["width"] = p.width; out["height"] = p.height;
+        out["size"] = `${p.width}x${p.height}`;
+    }
+    put("model", p.model);
+    put("model_hash", p.modelHash);
+    put("vae", p.vae);
+    put("vae_hash", p.vaeHash);
+    put("denoise", p.denoisingStrength);
+    put("clip_skip", p.clipSkip);
+    put("variation_seed", p.variationSeed);
+    put("variation_seed_strength", p.variationSeedStrength);
+    if (p.hires) out["hires"] = p.hires;
+    if (p.loraHashes) out["lora_hashes"] = p.loraHashes;
+    if (p.tiHashes) out["ti_hashes"] = p.tiHashes;
+    if (p.hashes) out["hashes"] = p.hashes;
+    put("version", p.version);
+    for (const [k, v] of Object.entries(p.extra)) if (!(k in out)) out[k] = v;
+    return out;
+}
+
 // ---- Common markers (A1111) ----
 const NEGATIVE_PROMPT_LABEL = "Negative prompt:";
 const NEGATIVE_PROMPT_RE = /(^|[\r\n])[\t ]*Negative prompt:/i;
@@ -179,15 +413,10 @@ function extractComfy(parsed: Record<string, unknown>): Record<string, unknown>
 
     if (parsed["prompt_json"]) pushIfGraph(parsed["prompt_json"]);
     if (parsed["workflow_json"]) {
-        // workflow_json is usually UI layout; sometimes includes nodes
+        // workflow_json is the editor (UI) format; rebuild an API graph from nodes/links/widgets_values
         const wf = parsed["workflow_json"] as any;
-        if (wf && typeof wf === "object" && Array.isArray((wf as any).nodes)) {
-            // Convert workflow.nodes list back to an id->node map if possible
-            const map: Record<string, any> = {};
-            for (const n of (wf as any).nodes) {
-                if (n && (n.id !== undefined)) map[String(n.id)] = n;
-            }
-            pushIfGraph(map);
+        if (isComfyUiWorkflow(wf)) {
+            try { pushIfGraph(uiWorkflowToApiGraph(wf)); } catch { /* ignore */ }
         }
     }
     // Also scan any *_json that embeds a prompt/workflow inside
@@ -196,62 +425,21 @@ function extractComfy(parsed: Record<string, unknown>): Record<string, unknown>
         const obj = v as any;
         if (obj && typeof obj === "object") {
             if (obj.prompt) pushIfGraph(obj.prompt);
-            if (obj.workflow) pushIfGraph(obj.workflow);
+            if (isComfyUiWorkflow(obj.workflow)) {
+                try { pushIfGraph(uiWorkflowToApiGraph(obj.workflow)); } catch { /* ignore */ }
+            } else if (obj.workflow) pushIfGraph(obj.workflow);
         }
     }
 
     for (const g of candidates) {
-        const extracted = extractFromComfyPromptGraph(g);
-        if (extracted) return extracted;
+        const summary = summarizeComfyGraph(g);
+        if (summary) return comfySummaryToFields(summary);
     }
     return null;
 }
 
-function extractFromComfyPromptGraph(graph: Record<string, any>): Record<string, unknown> | null {
-    const nodes = graph as Record<string, any>;
-    const ids = Object.keys(nodes);
-    if (!ids.length) return null;
-    const findNode = (pred: (n: any) => boolean) => ids.map((id) => nodes[id]).find(pred);
-
-    // Find sampler node (KSampler/KSamplerAdvanced)
-    const samplerNode = findNode((n) => typeof n?.class_type === "string" && n.class_type.startsWith("KSampler"));
-    if (!samplerNode) return null;
-
-    const out: Record<string, unknown> = { generator: "ComfyUI" };
-    const inputs = samplerNode.inputs || {};
-
-    // Copy common fields when present
-    if (inputs.seed !== undefined) out["seed"] = inputs.seed;
-    if (inputs.steps !== undefined) out["steps"] = inputs.steps;
-    if (inputs.cfg !== undefined) out["cfg_scale"] = inputs.cfg;
-    if (inputs.sampler_name !== undefined) out["sampler"] = inputs.sampler_name;
-    if (inputs.scheduler !== undefined) out["scheduler"] = inputs.scheduler;
-    if (inputs.denoise !== undefined) out["denoise"] = inputs.denoise;
-
-    // Resolve text from CLIP encode nodes connected to positive/negative
-    const resolveText = (conn: any): string | undefined => {
-        if (!conn) return undefined;
-        // Connection usually like [nodeId, "output_name"], accept number/string
-        const srcId = Array.isArray(conn) ? conn[0] : conn;
-        const node = nodes[String(srcId)];
-        if (!node) return undefined;
-        const inp = node.inputs || {};
-        if (typeof inp.text === "string") return inp.text;
-        const parts: string[] = [];
-        if (typeof inp.text_g === "string") parts.push(inp.text_g);
-        if (typeof inp.text_l === "string") parts.push(inp.text_l);
-        return parts.length ? parts.join(" ") : undefined;
-    };
-
-    const pos = resolveText(inputs.positive);
-    const neg = resolveText(inputs.negative);
-    if (pos) out["prompt"] = pos;
-    if (neg) out["negative_prompt"] = neg;
-
-    return out;
-}
 // ---- JPEG ---- (EXIF/XMP/Comment may include generation info)
-function parseJpeg(u8: Uint8Array): ImageMeta {
+function parseJpeg(u8: Uint8Array, opts: ParseOptions = {}): ImageMeta {
     const raw: Record<string, string> = {};
     // Check SOI
     if (u8.length < 2 || u8[0] !== 0xff || u8[1] !== 0xd8) {
@@ -348,10 +536,10 @@ function parseJpeg(u8: Uint8Array): ImageMeta {
     const selected = selectBestParametersFromTexts(tryTexts);
     if (selected) raw["parameters"] = selected;
     if (!raw["parameters"]) {
-        const rec = recoverParameters(u8, null);
+        const rec = recoverParameters(u8, null, opts);
         if (rec) raw["parameters"] = rec;
     } else if (looksGarbled(raw["parameters"])) {
-        const rec = recoverParameters(u8, raw["parameters"]);
+        const rec = recoverParameters(u8, raw["parameters"], opts);
         if (rec) raw["parameters"] = rec;
     }
 
@@ -361,7 +549,7 @@ function parseJpeg(u8: Uint8Array): ImageMeta {
     if (jpegComment) raw["Comment"] = jpegComment;
 
     // If text looks garbled, attempt a targeted UTF-16 scan as a last fix
-    if (raw["parameters"] && looksGarbled(raw["parameters"])) {
+    if (opts.recover !== false && raw["parameters"] && looksGarbled(raw["parameters"])) {
         const recovered = scanFileForSdText(u8);
         if (recovered) raw["parameters"] = recovered;
         else {
@@ -371,10 +559,12 @@ function parseJpeg(u8: Uint8Array): ImageMeta {
     }
 
     const fields = normalizeKnownFields(raw);
-    return { format: "jpeg", fields, raw };
+    const meta: ImageMeta = { format: "jpeg", fields, raw };
+    if (exifBytes) attachExifSections(meta, exifBytes);
+    return meta;
 }
 // ---- WEBP ---- (RIFF container; may carry XMP/EXIF)
-function parseWebp(u8: Uint8Array): ImageMeta {
+function parseWebp(u8: Uint8Array, opts: ParseOptions = {}): ImageMeta {
     const raw: Record<string, string> = {};
     // RIFF header: 'RIFF' <size LE> 'WEBP'
     if (u8.length < 12 || u8[0] !== 0x52 || u8[1] !== 0x49 || u8[2] !== 0x46 || u8[3] !== 0x46 ||
@@ -386,6 +576,9 @@ function parseWebp(u8: Uint8Array): ImageMeta {
     let off = 12;
     let exifChunk: Uint8Array | null = null;
     let xmpXml: string | null = null;
+    const file: FileInfo = { iccBytes: 0, alpha: false };
+    const chunkOrder: string[] = [];
+    const chunkCounts: Record<string, number> = {};
     while (off + 8 <= u8.length) {
         const tag0 = u8[off], tag1 = u8[off + 1], tag2 = u8[off + 2], tag3 = u8[off + 3];
         const size = u32le(off + 4);
@@ -394,10 +587,14 @@ function parseWebp(u8: Uint8Array): ImageMeta {
         const data = u8.subarray(off, off + size);
         // 4CC tags of interest: 'EXIF', 'XMP '
         const tag = String.fromCharCode(tag0, tag1, tag2, tag3);
+        if (chunkCounts[tag] === undefined) { chunkCounts[tag] = 0; chunkOrder.push(tag); }
+        chunkCounts[tag]++;
         if (tag === "EXIF") {
             exifChunk = data;
         } else if (tag === "XMP ") {
             try { xmpXml = decodeXmpChunk(data); } catch { /* ignore */ }
+        } else {
+            try { readWebpInfoChunk(tag, data, file); } catch { /* ignore */ }
         }
         // Chunks are even-padded
         off += size + (size & 1);
@@ -405,15 +602,10 @@ function parseWebp(u8: Uint8Array): ImageMeta {
 
     // Parse EXIF: WebP EXIF payload typically starts at TIFF header, without 'Exif\0\0'.
     const exifTexts: string[] = [];
+    let exifPayload: Uint8Array | null = null;
     if (exifChunk && exifChunk.length >= 8) {
-        let payload = exifChunk;
-        const exifHeader = strToU8("Exif\x00\x00");
-        // If missing header, prepend so our JPEG EXIF reader can parse it.
-        if (!startsWith(payload, exifHeader)) {
-            const buf = new Uint8Array(exifHeader.length + payload.length);
-            buf.set(exifHeader, 0); buf.set(payload, exifHeader.length);
-            payload = buf;
-        }
+        const payload = withExifHeader(exifChunk);
+        exifPayload = payload;
         try {
             const multi = extractExifTextsFromBytes(payload);
             if (multi) {
@@ -440,10 +632,10 @@ function parseWebp(u8: Uint8Array): ImageMeta {
     const chosen = selectBestParametersFromTexts(tryTexts);
     if (chosen) raw["parameters"] = chosen;
     if (!raw["parameters"]) {
-        const rec2 = recoverParameters(u8, null);
+        const rec2 = recoverParameters(u8, null, opts);
         if (rec2) raw["parameters"] = rec2;
     } else if (looksGarbled(raw["parameters"])) {
-        const rec2 = recoverParameters(u8, raw["parameters"]);
+        const rec2 = recoverParameters(u8, raw["parameters"], opts);
         if (rec2) raw["parameters"] = rec2;
     }
 
@@ -454,7 +646,191 @@ function parseWebp(u8: Uint8Array): ImageMeta {
     // parameters may have been recovered already via unified pipeline
 
     const fields = normalizeKnownFields(raw);
-    return { format: "webp", fields, raw };
+    file.chunks = chunkOrder.map((t) => (chunkCounts[t] > 1 ? `${t.trim()}×${chunkCounts[t]}` : t.trim()));
+    const meta: ImageMeta = { format: "webp", fields, raw, file };
+    if (exifPayload) attachExifSections(meta, exifPayload);
+    return meta;
+}
+
+// WebP EXIF / PNG eXIf payloads usually start at the TIFF header without 'Exif\0\0';
+// prepend it so the JPEG-style EXIF readers can parse them.
+function withExifHeader(payload: Uint8Array): Uint8Array {
+    const exifHeader = strToU8("Exif\x00\x00");
+    if (startsWith(payload, exifHeader)) return payload;
+    const buf = new Uint8Array(exifHeader.length + payload.length);
+    buf.set(exifHeader, 0); buf.set(payload, exifHeader.length);
+    return buf;
+}
+
+// Decode photographic EXIF tags (`Exif\0\0`-prefixed payload) into ImageMeta sections
+function attachExifSections(meta: ImageMeta, exif: Uint8Array) {
+    try {
+        const data = readExif(exif);
+        if (!data) return;
+        const camera = extractCameraInfo(data);
+        if (camera) meta.camera = camera;
+        const gps = extractGpsInfo(data);
+        if (gps) meta.gps = gps;
+    } catch { /* ignore */ }
+}
+
+const VP8X_FLAGS: [number, string][] = [[0x20, "ICC"], [0x10, "Alpha"], [0x08, "EXIF"], [0x04, "XMP"], [0x02, "Animation"]];
+
+// Structural WebP chunks → FileInfo. VP8X canvas size wins over bitstream dimensions.
+function readWebpInfoChunk(tag: string, data: Uint8Array, file: FileInfo) {
+    const u24le = (o: number) => data[o] | (data[o + 1] << 8) | (data[o + 2] << 16);
+    if (tag === "VP8X" && data.length >= 10) {
+        const flags = data[0];
+        file.features = VP8X_FLAGS.filter(([bit]) => flags & bit).map(([, name]) => name);
+        if (flags & 0x10) file.alpha = true;
+        file.width = u24le(4) + 1;
+        file.height = u24le(7) + 1;
+    } else if (tag === "VP8 " || tag === "VP8L") {
+        if (!file.codec) file.codec = tag === "VP8L" ? "VP8L (lossless)" : "VP8 (lossy)";
+        const dims = readWebpBitstreamSize(tag, data);
+        if (dims && file.width === undefined) { file.width = dims.width; file.height = dims.height; }
+        if (dims?.alpha) file.alpha = true;
+    } else if (tag === "ALPH") {
+        file.alpha = true;
+    } else if (tag === "ICCP") {
+        file.iccBytes = data.length;
+    } else if (tag === "ANIM" && data.length >= 6) {
+        // Background color (u32), then loop count (u16, 0 = infinite)
+        file.loopCount = data[4] | (data[5] << 8);
+    } else if (tag === "ANMF" && data.length >= 16) {
+        // Frame: X/Y offset, width-1, height-1 (u24 each), duration ms (u24), flags; then frame sub-chunks
+        file.frames = (file.frames ?? 0) + 1;
+        file.durationMs = (file.durationMs ?? 0) + u24le(12);
+        if (!file.codec && data.length >= 24) {
+            const sub = String.fromCharCode(data[16], data[17], data[18], data[19]);
+            if (sub === "VP8 " || sub === "ALPH") file.codec = "VP8 (lossy)";
+            else if (sub === "VP8L") file.codec = "VP8L (lossless)";
+        }
+    }
+}
+
+// Dimensions from a VP8 key frame header or the VP8L image header
+function readWebpBitstreamSize(tag: string, data: Uint8Array): { width: number; height: number; alpha?: boolean } | null {
+    if (tag === "VP8 ") {
+        // 3-byte frame tag, start code 9d 01 2a, then 14-bit width/height (LE, top 2 bits are scale)
+        if (data.length < 10 || data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) return null;
+        return { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff };
+    }
+    // VP8L: signature 0x2f, then 14-bit width-1, 14-bit height-1, 1-bit alpha_is_used (LSB first)
+    if (data.length < 5 || data[0] !== 0x2f) return null;
+    const bits = (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0;
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+}
+
+// ---- GIF ---- (Comment and XMP application extensions; animation facts)
+function parseGif(u8: Uint8Array): ImageMeta {
+    const raw: Record<string, string> = {};
+    let info: ReturnType<typeof readGif> = null;
+    try { info = readGif(u8); } catch { /* ignore */ }
+    if (!info) return { format: "gif", fields: {}, raw };
+
+    // Comment extensions have no defined encoding
+    const comments = info.comments.map((c) => decodeCommentText(c)).filter((t): t is string => !!t);
+    let xmpXml: string | null = null;
+    if (info.xmp) {
+        try { xmpXml = decodeXmpPacket(info.xmp); } catch { /* ignore */ }
+    }
+
+    // Priority: XMP attributes → XMP text → comments (no whole-file recovery for animations)
+    const tryTexts: string[] = [];
+    if (xmpXml) {
+        tryTexts.push(...extractFromXmpAttributes(xmpXml));
+        tryTexts.push(xmpXml);
+    }
+    tryTexts.push(...comments);
+    const chosen = selectBestParametersFromTexts(tryTexts);
+    if (chosen) raw["parameters"] = chosen;
+
+    if (comments.length) raw["Comment"] = comments.join("\n");
+    if (xmpXml) raw["XMP"] = xmpXml;
+
+    const fields = normalizeKnownFields(raw);
+    const file: FileInfo = { width: info.width, height: info.height, frames: info.frames, durationMs: info.durationMs };
+    if (info.loopCount !== undefined) file.loopCount = info.loopCount;
+    return { format: "gif", fields, raw, file };
+}
+
+// ---- AVIF/HEIC ---- (ISO-BMFF; Exif and XMP are stored as items in the meta box)
+function parseHeif(u8: Uint8Array, format: "avif" | "heic", opts: ParseOptions = {}): ImageMeta {
+    const raw: Record<string, string> = {};
+    let items: ReturnType<typeof readHeifItems> = null;
+    try { items = readHeifItems(u8); } catch { /* ignore */ }
+
+    const exifTexts: string[] = [];
+    const exifPayload = items?.exif && items.exif.length >= 8 ? withExifHeader(items.exif) : null;
+    if (exifPayload) {
+        try {
+            const multi = extractExifTextsFromBytes(exifPayload);
+            if (multi) {
+                if (multi.user) exifTexts.push(multi.user);
+                if (multi.xp) exifTexts.push(multi.xp);
+                if (multi.desc) exifTexts.push(multi.desc);
+            }
+        } catch { /* ignore */ }
+    }
+    let xmpXml: string | null = null;
+    if (items?.xmp.length) {
+        try { xmpXml = items.xmp.map((x) => decodeXmpPacket(x)).join(""); } catch { /* ignore */ }
+    }
+
+    // Same source priority as WebP: EXIF texts → XMP attributes → XMP text → recovery
+    const tryTexts: string[] = [...exifTexts];
+    if (xmpXml) {
+        tryTexts.push(...extractFromXmpAttributes(xmpXml));
+        tryTexts.push(xmpXml);
+    }
+    const chosen = selectBestParametersFromTexts(tryTexts);
+    if (chosen) raw["parameters"] = chosen;
+    if (!raw["parameters"]) {
+        const rec = recoverParameters(u8, null, opts);
+        if (rec) raw["parameters"] = rec;
+    } else if (looksGarbled(raw["parameters"])) {
+        const rec = recoverParameters(u8, raw["parameters"], opts);
+        if (rec) raw["parameters"] = rec;
+    }
+
+    if (exifTexts.length) raw["EXIF"] = exifTexts.join("\n");
+    if (xmpXml) raw["XMP"] = xmpXml;
+
+    const fields = normalizeKnownFields(raw);
+    const meta: ImageMeta = { format, fields, raw };
+    if (items?.width !== undefined && items.height !== undefined) meta.file = { width: items.width, height: items.height };
+    if (exifPayload) attachExifSections(meta, exifPayload);
+    return meta;
+}
+
+// ---- MP4/WebM ---- (ComfyUI video outputs; container tags only)
+// VideoHelperSuite writes one JSON `comment` tag: {"prompt": "<json string>", "workflow": {...}}.
+// Core SaveVideo writes separate `prompt`/`workflow` tags with JSON strings.
+function parseVideo(u8: Uint8Array, format: "mp4" | "webm"): ImageMeta {
+    const raw: Record<string, string> = {};
+    let tags: Record<string, string> = {};
+    try { tags = format === "mp4" ? readMp4Tags(u8) : readMatroskaTags(u8); } catch { /* ignore */ }
+    const asJsonText = (v: unknown) => (typeof v === "string" ? v : JSON.stringify(v));
+    for (const [name, value] of Object.entries(tags)) {
+        const key = name.toLowerCase();
+        if (key === "prompt" || key === "workflow") {
+            if (!raw[key]) raw[key] = value;
+            continue;
+        }
+        if (key === "comment") {
+            const obj = tryParseJsonPayload(value);
+            if (obj && typeof obj === "object" && !Array.isArray(obj) && ("prompt" in obj || "workflow" in obj)) {
+                for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
+                    if (v !== undefined && v !== null && !raw[k]) raw[k] = asJsonText(v);
+                }
+                continue;
+            }
+        }
+        raw[name] = value;
+    }
+    const fields = normalizeKnownFields(raw);
+    return { format, fields, raw };
 }
 
 // Best-effort decode for XML/text that may be UTF-8 or UTF-16 (LE/BE) with/without BOM
@@ -498,6 +874,18 @@ function decodeXmpChunk(data: Uint8Array): string {
         return best ?? probe;
     } catch { return ""; }
 }
+// XMP of AVIF/HEIC and GIF: well-formed UTF-8 (the XMP default) is
+// taken as-is, since the best-of scorer in decodeXmpChunk can favor CJK readings of plain
+// ASCII decoded as UTF-16; anything else goes through decodeXmpChunk
+function decodeXmpPacket(data: Uint8Array): string {
+    if (countByte(data, 0x00) === 0) {
+        try {
+            const utf8 = new TextDecoder("utf-8", { fatal: true }).decode(data);
+            if (!/encoding=["'](?!utf-8)/i.test(utf8)) return utf8;
+        } catch { /* not UTF-8 */ }
+    }
+    return decodeXmpChunk(data);
+}
 function decodeByXmlEncoding(data: Uint8Array, encAttr: string): string | null {
     try {
         const enc = encAttr.toLowerCase();
@@ -524,6 +912,14 @@ function tryDecodeUTF8(u: Uint8Array): string | null {
     // Use best-of heuristic across common encodings
     return decodeBest(u);
 }
+// GIF comments: well-formed UTF-8 without NULs is taken as-is (the scorer favours CJK and
+// can misread plain ASCII as UTF-16); otherwise the same best-of heuristic as tryDecodeUTF8
+function decodeCommentText(u: Uint8Array): string | null {
+    if (countByte(u, 0x00) === 0) {
+        try { return new TextDecoder("utf-8", { fatal: true }).decode(u); } catch { /* fallthrough */ }
+    }
+    return decodeBest(u);
+}
 function decodeShiftJIS(u: Uint8Array): string | null {
     try { return new TextDecoder("shift_jis" as any).decode(u); } catch { return null; }
 }
@@ -818,6 +1214,9 @@ function interpretSdText(text: string | null): string | null {
     const fixed = maybeFixUtf16EndianMisdecode(text) ?? text;
     const obj = tryParseJsonPayload(fixed);
     if (obj && typeof obj === "object" && !Array.isArray(obj)) {
+        // Schemas with their own adapter are kept as JSON (see generators.ts)
+        if (isGeneratorJson(obj)) return JSON.stringify(obj);
+        if (isGeneratorJson((obj as any)["sd-metadata"])) return JSON.stringify((obj as any)["sd-metadata"]);
         const md = (obj as any)["sd-metadata"] || (obj as any)["sd_metadata"] || obj;
         const asText = forgeMetadataToParameters(md) || (obj as any)["parameters"];
         if (asText && typeof asText === "string") return asText;
@@ -828,6 +1227,11 @@ function interpretSdText(text: string | null): string | null {
     return null;
 }
 
+function looksLikeJsonObject(text: string): boolean {
+    const t = text.trim();
+    return t.startsWith("{") && t.endsWith("}");
+}
+
 function tryParseJsonPayload(text: string): any | null {
     // Direct
     try { return JSON.parse(text); } catch { /* ignore */ }
@@ -1104,7 +1508,8 @@ function selectBestParametersFromTexts(texts: string[]): string | null {
 }
 
 // Unified recovery pipeline when parameters are missing or garbled
-function recoverParameters(u8: Uint8Array, existing: string | null): string | null {
+function recoverParameters(u8: Uint8Array, existing: string | null, opts: ParseOptions = {}): string | null {
+    if (opts.recover === false) return null;
     if (!existing) {
         // Absent: try JSON scan, then UTF-16 near Negative prompt, then full UTF-16/Shift_JIS
         const j = scanWholeFileForMeta(u8); if (j) return j;
@@ -0,0 +1,206 @@
+/// <reference path="./worker-code.d.ts" />
+import workerCode from "worker:./worker.ts";
+import { parseImageMeta } from "./parser";
+import type { ImageMeta, ParseOptions } from "./parser";
+
+/**
+ * Runs `parseImageMeta` in a Web Worker so whole-file decode passes do not
+ * block the UI. Requests are queued and handled one at a time; buffers are
+ * transferred, not copied, so callers must not reuse them.
+ *
+ * A request can be cancelled through an AbortSignal: queued requests are
+ * dropped, the running one terminates the worker (a new one is started for
+ * the next request). After `timeoutMs` the request resolves with the
+ * worker's fast first pass, marked `partial`, if it has one.
+ */
+export type WorkerRequest = { id: number; buf: ArrayBuffer; ext: string; opts: ParseOptions };
+export type WorkerResponse =
+    | { id: number; kind: "partial"; meta: ImageMeta }
+    | { id: number; kind: "done"; meta: ImageMeta }
+    | { id: number; kind: "error"; error: string };
+
+export type ParseRequestOptions = {
+    signal?: AbortSignal;
+    /** Interactive requests (view, modal) go ahead of background ones (indexer) */
+    priority?: "high" | "low";
+};
+
+type Job = {
+    id: number;
+    buf: ArrayBuffer;
+    ext: string;
+    opts: ParseOptions;
+    priority: "high" | "low";
+    resolve: (meta: ImageMeta) => void;
+    reject: (e: unknown) => void;
+    signal?: AbortSignal;
+    partial?: ImageMeta;
+    timer?: number;
+    cleanup?: () => void;
+};
+
+const CANCELLED = "ParseCancelled";
+const TIMED_OUT = "ParseTimeout";
+const FAILED = "ParseFailed";
+
+function namedError(name: string, message: string): Error {
+    const e = new Error(message);
+    e.name = name;
+    return e;
+}
+
+/** True for the rejection of a cancelled request (a newer request superseded it). */
+export function isParseCancelled(e: unknown): boolean {
+    return !!e && (e as any).name === CANCELLED;
+}
+
+/** True when the parser itself rejected the data; unlike timeouts or worker crashes, retrying will not help. */
+export function isParseFailure(e: unknown): boolean {
+    return !!e && (e as any).name === FAILED;
+}
+
+export class ParserWorker {
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private queue: Job[] = [];
+    private current: Job | null = null;
+    private nextId = 1;
+    // Worker creation failed (e.g. blocked by CSP): parse on the main thread instead
+    private unavailable = false;
+
+    constructor(private timeoutMs: number) { }
+
+    parse(buf: ArrayBuffer, ext: string, opts: ParseOptions = {}, req: ParseRequestOptions = {}): Promise<ImageMeta> {
+        if (req.signal?.aborted) return Promise.reject(namedError(CANCELLED, "Parse cancelled"));
+        return new Promise<ImageMeta>((resolve, reject) => {
+            const job: Job = { id: this.nextId++, buf, ext, opts, priority: req.priority ?? "low", signal: req.signal, resolve, reject };
+            if (req.signal) {
+                const signal = req.signal;
+                const onAbort = () => this.cancel(job);
+                signal.addEventListener("abort", onAbort);
+                job.cleanup = () => signal.removeEventListener("abort", onAbort);
+            }
+            if (job.priority === "high") {
+                // After other interactive requests, before background ones
+                let i = 0;
+                while (i < this.queue.length && this.queue[i].priority === "high") i++;
+                this.queue.splice(i, 0, job);
+            } else {
+                this.queue.push(job);
+            }
+            this.pump();
+        });
+    }
+
+    /** Stop the worker and reject everything pending. */
+    destroy() {
+        const jobs = this.current ? [this.current, ...this.queue] : this.queue.slice();
+        this.queue = [];
+        this.current = null;
+        this.terminate();
+        for (const job of jobs) this.settle(job, () => job.reject(namedError(CANCELLED, "Parse cancelled")));
+        if (this.workerUrl) { URL.revokeObjectURL(this.workerUrl); this.workerUrl = null; }
+    }
+
+    private pump() {
+        if (this.current || !this.queue.length) return;
+        const job = this.queue.shift() as Job;
+        const worker = this.ensureWorker();
+        this.current = job;
+        if (this.timeoutMs > 0) job.timer = window.setTimeout(() => this.timeout(job), this.timeoutMs);
+        if (!worker) {
+            void this.parseOnMainThread(job);
+            return;
+        }
+        const msg: WorkerRequest = { id: job.id, buf: job.buf, ext: job.ext, opts: job.opts };
+        worker.postMessage(msg, [job.buf]);
+    }
+
+    // Fallback when no worker can run: same queue, timeout and error naming, but the parse
+    // itself cannot be interrupted, so a cancelled or timed-out job's result is dropped
+    private async parseOnMainThread(job: Job) {
+        let meta: ImageMeta | null = null;
+        let error: unknown = null;
+        try {
+            meta = await parseImageMeta(job.buf, job.ext, job.opts);
+        } catch (e) {
+            error = e;
+        }
+        if (this.current !== job) return;
+        if (job.signal?.aborted) { this.settle(job, () => job.reject(namedError(CANCELLED, "Parse cancelled"))); return; }
+        const result = meta;
+        if (result) this.settle(job, () => job.resolve(result));
+        else this.settle(job, () => job.reject(namedError(FAILED, String((error as any)?.message ?? error))));
+    }
+
+    private ensureWorker(): Worker | null {
+        if (this.worker) return this.worker;
+        if (this.unavailable) return null;
+        if (typeof Worker === "undefined") { this.unavailable = true; return null; }
+        try {
+            if (!this.workerUrl) this.workerUrl = URL.createObjectURL(new Blob([workerCode], { type: "text/javascript" }));
+            const worker = new Worker(this.workerUrl);
+            worker.onmessage = (ev: MessageEvent<WorkerResponse>) => this.onMessage(ev.data);
+            worker.onerror = (ev) => {
+                ev.preventDefault();
+                const job = this.current;
+                this.restart();
+                if (job) this.settle(job, () => job.reject(new Error(ev.message || "Parser worker failed")));
+            };
+            this.worker = worker;
+            return worker;
+        } catch (e) {
+            console.warn("Parser worker unavailable; parsing on the main thread", e);
+            this.unavailable = true;
+            return null;
+        }
+    }
+
+    private onMessage(msg: WorkerResponse) {
+        const job = this.current;
+        if (!job || msg.id !== job.id) return;
+        if (msg.kind === "partial") { job.partial = msg.meta; return; }
+        this.current = null;
+        if (msg.kind === "done") {
+            const meta = msg.meta;
+            this.settle(job, () => job.resolve(meta));
+        } else {
+            const error = msg.error;
+            this.settle(job, () => job.reject(namedError(FAILED, error)));
+        }
+    }
+
+    private timeout(job: Job) {
+        if (this.current !== job) return;
+        this.restart();
+        if (job.partial) this.settle(job, () => job.resolve({ ...(job.partial as ImageMeta), partial: true }));
+        else this.settle(job, () => job.reject(namedError(TIMED_OUT, "Parse timed out")));
+    }
+
+    private cancel(job: Job) {
+        const i = this.queue.indexOf(job);
+        if (i >= 0) this.queue.splice(i, 1);
+        else if (this.current === job) this.restart();
+        else return;
+        this.settle(job, () => job.reject(namedError(CANCELLED, "Parse cancelled")));
+    }
+
+    // Clear per-job state, deliver the result, then start the next job
+    private settle(job: Job, deliver: () => unknown) {
+        if (job.timer !== undefined) window.clearTimeout(job.timer);
+        job.cleanup?.();
+        if (this.current === job) this.current = null;
+        deliver();
+        this.pump();
+    }
+
+    // Terminate a busy worker; the next job starts a fresh one
+    private restart() {
+        this.current = null;
+        this.terminate();
+    }
+
+    private terminate() {
+        if (this.worker) { this.worker.terminate(); this.worker = null; }
+    }
+}
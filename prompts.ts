@@ -0,0 +1,103 @@
+import { ItemView, WorkspaceLeaf, TFile, debounce } from "obsidian";
+import type { IndexEntry, IndexQuery, MetadataIndex } from "./indexer";
+
+export const VIEW_TYPE_IMGPROMPTS = "imgmeta-prompts";
+
+// Rendering thousands of rows at once is slow; show the newest matches
+const MAX_RESULTS = 200;
+const SNIPPET_CHARS = 240;
+
+/** Search over the vault-wide metadata index: prompt text plus model/sampler/seed/LoRA/generator filters. */
+export class ImagePromptsView extends ItemView {
+  private query: IndexQuery = {};
+  private statusEl: HTMLElement | null = null;
+  private resultsEl: HTMLElement | null = null;
+  private generatorEl: HTMLSelectElement | null = null;
+  private readonly refresh = debounce(() => this.renderResults(), 150, true);
+
+  constructor(leaf: WorkspaceLeaf, private index: MetadataIndex) { super(leaf); }
+  getViewType() { return VIEW_TYPE_IMGPROMPTS; }
+  getDisplayText() { return "Image prompts"; }
+  getIcon() { return "search"; }
+
+  async onOpen() {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("imgmeta-prompts");
+
+    const bar = container.createDiv({ cls: "imgmeta-searchbar" });
+    const text = bar.createEl("input", { type: "text" });
+    text.placeholder = "Search prompts";
+    text.addEventListener("input", () => { this.query.text = text.value.trim(); this.refresh(); });
+
+    const filters = container.createDiv({ cls: "imgmeta-prompts-filters" });
+    const filter = (key: "model" | "sampler" | "seed" | "lora", placeholder: string) => {
+      const input = filters.createEl("input", { type: "text" });
+      input.placeholder = placeholder;
+      input.addEventListener("input", () => { this.query[key] = input.value.trim(); this.refresh(); });
+    };
+    filter("model", "Model");
+    filter("sampler", "Sampler");
+    filter("seed", "Seed");
+    filter("lora", "LoRA");
+    this.generatorEl = filters.createEl("select");
+    this.generatorEl.addEventListener("change", () => { this.query.generator = this.generatorEl?.value ?? ""; this.refresh(); });
+
+    this.statusEl = container.createDiv({ cls: "imgmeta-prompts-status" });
+    this.resultsEl = container.createDiv({ cls: "imgmeta-prompts-results" });
+
+    this.registerEvent(this.index.on("updated", () => this.refresh()));
+    this.renderResults();
+  }
+
+  async onClose() {
+  }
+
+  private renderGeneratorOptions() {
+    const sel = this.generatorEl;
+    if (!sel) return;
+    const gens = this.index.generators();
+    const current = sel.value;
+    // Rebuild only when the set of generators changed
+    if (sel.options.length === gens.length + 1 && gens.every((g, i) => sel.options[i + 1].value === g)) return;
+    sel.empty();
+    sel.createEl("option", { text: "All generators", value: "" });
+    for (const g of gens) sel.createEl("option", { text: g, value: g });
+    sel.value = gens.includes(current) ? current : "";
+  }
+
+  private renderResults() {
+    const results = this.resultsEl;
+    if (!results || !this.statusEl) return;
+    this.renderGeneratorOptions();
+    const hits = this.index.search(this.query);
+    const pending = this.index.pending;
+    this.statusEl.setText(
+      `${hits.length} of ${this.index.size} images` +
+      (hits.length > MAX_RESULTS ? ` (showing ${MAX_RESULTS})` : "") +
+      (pending ? ` · indexing ${pending} more…` : "")
+    );
+    results.empty();
+    for (const e of hits.slice(0, MAX_RESULTS)) this.renderResult(results, e);
+  }
+
+  private renderResult(parent: HTMLElement, e: IndexEntry) {
+    const f = e.fields;
+    const item = parent.createDiv({ cls: "imgmeta-prompts-item" });
+    item.createDiv({ cls: "imgmeta-prompts-name", text: e.path.split("/").pop() ?? e.path });
+    const meta = [f.generator, f.model, f.sampler, f.seed !== undefined ? `seed ${f.seed}` : "", f.dimensions]
+      .filter(Boolean).join(" · ");
+    if (meta) item.createDiv({ cls: "imgmeta-prompts-meta", text: meta });
+    if (f.prompt) {
+      const snippet = f.prompt.length > SNIPPET_CHARS ? f.prompt.slice(0, SNIPPET_CHARS) + "…" : f.prompt;
+      item.createDiv({ cls: "imgmeta-prompts-snippet", text: snippet });
+    }
+    item.setAttr("title", e.path);
+    item.onclick = async (ev) => {
+      const file = this.app.vault.getAbstractFileByPath(e.path);
+      if (!(file instanceof TFile)) return;
+      // Ctrl/Cmd-click opens in a new tab
+      await this.app.workspace.getLeaf(ev.ctrlKey || ev.metaKey).openFile(file);
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { FIELD_LABELS } from "./sections";
+
+/**
+ * Property grid for normalized fields: one row per field with its own Copy
+ * button. Long text is truncated with a More/Less toggle; objects and arrays
+ * become collapsible rows whose children are rendered on first expand.
+ */
+
+// Longer strings are cut to this many characters until expanded
+const TRUNCATE_CHARS = 160;
+// Leading fields, in this order; the rest follow in field order
+const LEADING_FIELDS = ["generator", "prompt", "negative_prompt"];
+// Shown in their own sections
+const HIDDEN_FIELDS: Record<string, true> = { parameters_raw: true, prompt_json: true, workflow_json: true };
+/** Fields the generator layout (ComfyUI, NovelAI, ...) shows in sections of their own, next to a "Settings" grid. */
+export const GENERATOR_SECTION_FIELDS = ["prompt", "negative_prompt", "sampler_stages", "characters"];
+
+export function renderPropertyGrid(
+    parent: HTMLElement,
+    fields: Record<string, unknown>,
+    copy: (text: string) => unknown,
+    title = "Fields",
+    open = true,
+    omit: string[] = []
+): HTMLDetailsElement | null {
+    const keys = orderedKeys(fields, omit);
+    if (!keys.length) return null;
+    const details = parent.createEl("details", { cls: "imgmeta-details imgmeta-props" });
+    details.open = open;
+    const sum = details.createEl("summary");
+    sum.setText(title);
+    const copyBtn = sum.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+    copyBtn.onclick = (ev) => {
+        ev.preventDefault(); ev.stopPropagation();
+        const shown: Record<string, unknown> = {};
+        for (const k of keys) shown[k] = fields[k];
+        copy(JSON.stringify(shown, null, 2));
+    };
+    renderRows(details, keys.map((k) => [FIELD_LABELS[k] ?? k, fields[k]]), copy);
+    return details;
+}
+
+function orderedKeys(fields: Record<string, unknown>, omit: string[]): string[] {
+    const keys: string[] = [];
+    const add = (k: string) => {
+        if (HIDDEN_FIELDS[k] || omit.indexOf(k) >= 0 || keys.indexOf(k) >= 0) return;
+        const v = fields[k];
+        if (v === undefined || v === "") return;
+        keys.push(k);
+    };
+    for (const k of LEADING_FIELDS) if (k in fields) add(k);
+    for (const k of Object.keys(FIELD_LABELS)) if (k in fields) add(k);
+    for (const k of Object.keys(fields)) add(k);
+    return keys;
+}
+
+function renderRows(parent: HTMLElement, entries: [string, unknown][], copy: (text: string) => unknown) {
+    const table = parent.createEl("table", { cls: "imgmeta-kv" });
+    for (const [label, v] of entries) {
+        const tr = table.createEl("tr");
+        tr.createEl("th", { text: label });
+        const td = tr.createEl("td");
+        if (v && typeof v === "object") renderNested(td, v as Record<string, unknown>, copy);
+        else renderValue(td, formatScalar(v));
+        const btnCell = tr.createEl("td", { cls: "imgmeta-node-copy" });
+        const btn = btnCell.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+        btn.onclick = () => copy(v && typeof v === "object" ? JSON.stringify(v, null, 2) : formatScalar(v));
+    }
+}
+
+function formatScalar(v: unknown): string {
+    return typeof v === "string" ? v : String(v);
+}
+
+function renderValue(td: HTMLElement, text: string) {
+    if (text.length <= TRUNCATE_CHARS) { td.setText(text); return; }
+    const span = td.createEl("span", { text: `${text.slice(0, TRUNCATE_CHARS)}…` });
+    const toggle = td.createEl("button", { cls: "imgmeta-inline-btn imgmeta-props-more", text: "More" });
+    let expanded = false;
+    toggle.onclick = () => {
+        expanded = !expanded;
+        span.setText(expanded ? text : `${text.slice(0, TRUNCATE_CHARS)}…`);
+        toggle.setText(expanded ? "Less" : "More");
+    };
+}
+
+// Objects and arrays: a collapsed summary ("3 keys", "2 items"), children drawn on first open
+function renderNested(td: HTMLElement, v: Record<string, unknown>, copy: (text: string) => unknown) {
+    const isArray = Array.isArray(v);
+    const keys = Object.keys(v);
+    const details = td.createEl("details", { cls: "imgmeta-props-nested" });
+    details.createEl("summary", { text: isArray ? `${keys.length} item${keys.length === 1 ? "" : "s"}` : `${keys.length} key${keys.length === 1 ? "" : "s"}` });
+    let drawn = false;
+    details.addEventListener("toggle", () => {
+        if (!details.open || drawn) return;
+        drawn = true;
+        renderRows(details, keys.map((k) => [isArray ? `[${k}]` : k, v[k]]), copy);
+    });
+}
@@ -1,6 +1,34 @@
 import typescript from "@rollup/plugin-typescript";
 import { nodeResolve } from "@rollup/plugin-node-resolve";
 import commonjs from "@rollup/plugin-commonjs";
+import { rollup } from "rollup";
+import path from "node:path";
+
+// `import code from "worker:./file.ts"` bundles the file as a standalone IIFE
+// and exposes its source as a string (the parser worker is started from a Blob URL)
+function inlineWorker() {
+    const PREFIX = "worker:";
+    return {
+        name: "inline-worker",
+        resolveId(id, importer) {
+            if (!id.startsWith(PREFIX)) return null;
+            return "\0" + PREFIX + path.resolve(importer ? path.dirname(importer) : ".", id.slice(PREFIX.length));
+        },
+        async load(id) {
+            if (!id.startsWith("\0" + PREFIX)) return null;
+            const input = id.slice(PREFIX.length + 1);
+            const bundle = await rollup({
+                input,
+                plugins: [nodeResolve({ browser: true }), commonjs(), typescript({ include: ["*.ts"] })],
+            });
+            const { output } = await bundle.generate({ format: "iife" });
+            await bundle.close();
+            for (const f of bundle.watchFiles) this.addWatchFile(f);
+            return `export default ${JSON.stringify(output[0].code)};`;
+        },
+    };
+}
+
 export default {
     input: "main.ts",
     output: {
@@ -9,5 +37,5 @@ export default {
         format: "cjs"
     },
     external: ["obsidian"],
-    plugins: [nodeResolve({ browser: true }), commonjs(), typescript()]
+    plugins: [inlineWorker(), nodeResolve({ browser: true }), commonjs(), typescript({ exclude: ["test/**"] })]
 };
@@ -0,0 +1,29 @@
+import typescript from "@rollup/plugin-typescript";
+import { nodeResolve } from "@rollup/plugin-node-resolve";
+import commonjs from "@rollup/plugin-commonjs";
+import { readdirSync } from "node:fs";
+import path from "node:path";
+
+// Test bundles: `obsidian` resolves to the runtime stand-ins in test/obsidian.ts
+// and the parser worker source is left empty (parses run on the main thread)
+function testStubs() {
+    return {
+        name: "test-stubs",
+        resolveId(id) {
+            if (id === "obsidian") return path.resolve("test/obsidian.ts");
+            if (id.startsWith("worker:")) return "\0worker-stub";
+            return null;
+        },
+        load(id) {
+            return id === "\0worker-stub" ? "export default \"\";" : null;
+        },
+    };
+}
+
+// One build for all test files; modules they share go to common chunks
+export default {
+    input: readdirSync("test").filter((f) => f.endsWith(".test.ts")).map((f) => `test/${f}`),
+    output: { dir: "test-build", format: "es", entryFileNames: "[name].mjs", chunkFileNames: "[name]-[hash].mjs", sourcemap: false },
+    external: (id) => id.startsWith("node:"),
+    plugins: [testStubs(), nodeResolve({ browser: true }), commonjs(), typescript({ include: ["*.ts", "test/*.ts"], target: "es2020", lib: ["es2020", "dom"] })],
+};
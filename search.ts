@@ -0,0 +1,368 @@
+import { jsonSearchText, jsonSectionValue, openJsonSection } from "./jsontree";
+import type { JsonTree } from "./jsontree";
+
+/**
+ * In-pane search shared by the sidebar view and the modal. Targets under the
+ * root element are:
+ *   - read-only textareas from `createSearchTextarea` (prompts, parameters);
+ *     every match is painted on an overlay mirroring the textarea
+ *   - JSON sections from `renderJsonSection` (prompt/workflow/raw); their data
+ *     is searched directly, and the current match opens its branch of the tree
+ * Moving to a match opens its <details> ancestors.
+ *
+ * The query is plain text by default; the ".*" toggle reads it as a
+ * JavaScript regular expression and "W" keeps only matches not touching
+ * word characters on either side. Zero-length regex matches are skipped.
+ */
+type TextMatch = { kind: "text"; el: HTMLTextAreaElement; start: number; end: number };
+type JsonMatch = { kind: "json"; section: HTMLDetailsElement; keys: string[]; part: "key" | "value"; start: number; end: number };
+export type SearchMatch = TextMatch | JsonMatch;
+
+// Counting stops here; large workflows can contain a match in every node
+const MAX_MATCHES = 5000;
+
+// Tag check rather than instanceof, which fails for views in popout windows
+const isTextarea = (el: Element): el is HTMLTextAreaElement => el.tagName === "TEXTAREA";
+
+// Overlay content element of each searchable textarea
+const overlays = new WeakMap<HTMLTextAreaElement, HTMLDivElement>();
+
+/** Read-only textarea with a highlight overlay, picked up by MetadataSearch. */
+export function createSearchTextarea(parent: HTMLElement, text: string, extraCls = ""): HTMLTextAreaElement {
+    const wrap = parent.createDiv({ cls: "imgmeta-textwrap" });
+    // Overlay for highlight (above textarea, pointer-events: none)
+    const overlay = wrap.createDiv({ cls: "imgmeta-overlay" });
+    const overlayInner = overlay.createDiv({ cls: "imgmeta-overlay-content" });
+    const ta = wrap.createEl("textarea", { cls: `imgmeta-textarea imgmeta-search-target ${extraCls}`.trim() });
+    ta.setAttr("readonly", "true");
+    ta.setAttr("spellcheck", "false");
+    ta.setAttr("wrap", "soft");
+    ta.value = text;
+    // Initialize overlay content without highlight
+    overlayInner.textContent = text;
+    // Sync scroll
+    const sync = () => {
+        overlayInner.style.transform = `translate(${-ta.scrollLeft}px, ${-ta.scrollTop}px)`;
+    };
+    ta.addEventListener("scroll", sync);
+    sync();
+    overlays.set(ta, overlayInner);
+    return ta;
+}
+
+export type SearchFlags = { regex: boolean; caseSensitive: boolean; wholeWord: boolean };
+
+/**
+ * The query as a global RegExp, or null when it is empty. Plain queries are
+ * escaped so every mode goes through the same RegExp; an invalid regex throws.
+ */
+export function compileSearchPattern(query: string, flags: SearchFlags): RegExp | null {
+    if (flags.regex ? !query : !query.trim()) return null;
+    let source = flags.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (flags.wholeWord) source = `(?<!\\w)(?:${source})(?!\\w)`;
+    return new RegExp(source, flags.caseSensitive ? "g" : "gi");
+}
+
+/** Ranges matched by `pattern` in `text`, skipping zero-length matches. */
+export function findMatchRanges(pattern: RegExp | null, text: string): { start: number; end: number }[] {
+    const out: { start: number; end: number }[] = [];
+    if (!pattern) return out;
+    pattern.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+        // Zero-length matches (^, \b, a*) have nothing to highlight; step past them
+        if (m[0].length === 0) { pattern.lastIndex++; continue; }
+        out.push({ start: m.index, end: m.index + m[0].length });
+    }
+    return out;
+}
+
+export class MetadataSearch {
+    private barEl: HTMLDivElement | null = null;
+    private inputEl: HTMLInputElement | null = null;
+    private countEl: HTMLSpanElement | null = null;
+    private buttons: HTMLButtonElement[] = [];
+    private root: HTMLElement | null = null;
+    private query = "";
+    private caseSensitive = false;
+    private regex = false;
+    private wholeWord = false;
+    // Compiled query; null when empty or invalid (see patternError)
+    private pattern: RegExp | null = null;
+    private patternError: string | null = null;
+    private enabled = false;
+    private capped = false;
+    private matches: SearchMatch[] = [];
+    private matchIndex = -1;
+    private highlightedEl: HTMLTextAreaElement | null = null;
+    private highlightedTree: JsonTree | null = null;
+
+    /** Build the search bar into `container`; targets are looked up under `root`. Query and case survive rebuilds. */
+    attach(container: HTMLElement, root: HTMLElement) {
+        this.root = root;
+        this.matches = [];
+        this.matchIndex = -1;
+        this.highlightedEl = null;
+        this.highlightedTree = null;
+        this.barEl = container.createDiv({ cls: "imgmeta-searchbar" });
+        const input = this.barEl.createEl("input", { type: "text" });
+        input.placeholder = "Find in metadata";
+        input.value = this.query;
+        this.inputEl = input;
+
+        this.countEl = this.barEl.createEl("span", { cls: "imgmeta-search-count" });
+
+        const caseBtn = this.barEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Aa" });
+        caseBtn.setAttr("aria-label", "Toggle case sensitive");
+        const wordBtn = this.barEl.createEl("button", { cls: "imgmeta-inline-btn", text: "W" });
+        wordBtn.setAttr("aria-label", "Toggle whole word");
+        const regexBtn = this.barEl.createEl("button", { cls: "imgmeta-inline-btn", text: ".*" });
+        regexBtn.setAttr("aria-label", "Toggle regular expression");
+        const prev = this.barEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Prev" });
+        const next = this.barEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Next" });
+        this.buttons = [caseBtn, wordBtn, regexBtn, prev, next];
+
+        caseBtn.onclick = () => {
+            this.caseSensitive = !this.caseSensitive;
+            caseBtn.classList.toggle("is-active", this.caseSensitive);
+            this.refresh();
+        };
+        wordBtn.onclick = () => {
+            this.wholeWord = !this.wholeWord;
+            wordBtn.classList.toggle("is-active", this.wholeWord);
+            this.refresh();
+        };
+        regexBtn.onclick = () => {
+            this.regex = !this.regex;
+            regexBtn.classList.toggle("is-active", this.regex);
+            this.refresh();
+        };
+        prev.onclick = () => this.findPrev();
+        next.onclick = () => this.findNext();
+
+        input.addEventListener("input", () => {
+            this.query = input.value;
+            // Update counts without moving focus away from input
+            this.refresh();
+        });
+        input.addEventListener("keydown", (ev) => {
+            if (ev.key === "Enter") {
+                ev.preventDefault();
+                if (ev.shiftKey) this.findPrev(); else this.findNext();
+            }
+        });
+        // Initialize toggle visual state
+        caseBtn.classList.toggle("is-active", this.caseSensitive);
+        wordBtn.classList.toggle("is-active", this.wholeWord);
+        regexBtn.classList.toggle("is-active", this.regex);
+        this.setEnabled(false);
+    }
+
+    /** Focus the input (no-op while there is nothing to search). */
+    open() {
+        if (!this.enabled) return;
+        this.inputEl?.focus();
+        this.inputEl?.select();
+        this.refresh();
+    }
+
+    /** Recompute matches after rendering or a query change, without moving to one. */
+    refresh() {
+        const targets = this.collectTargets();
+        this.setEnabled(targets.length > 0);
+        this.clearCurrent();
+        for (const t of targets) if (isTextarea(t)) this.renderOverlayFor(t, null);
+        this.matches = [];
+        this.matchIndex = -1;
+        this.capped = false;
+        this.compilePattern();
+        if (this.enabled && this.pattern) this.collectMatches(targets);
+        this.updateCount();
+        if (this.matches.length) this.renderAllOverlays(null);
+    }
+
+    findNext() {
+        if (this.matches.length === 0) return;
+        if (this.matchIndex === -1) this.matchIndex = 0; else this.matchIndex = (this.matchIndex + 1) % this.matches.length;
+        this.focusCurrentMatch();
+    }
+
+    findPrev() {
+        if (this.matches.length === 0) return;
+        if (this.matchIndex === -1) this.matchIndex = 0; else this.matchIndex = (this.matchIndex - 1 + this.matches.length) % this.matches.length;
+        this.focusCurrentMatch();
+    }
+
+    private collectTargets(): (HTMLTextAreaElement | HTMLDetailsElement)[] {
+        if (!this.root) return [];
+        // Document order, so Next walks the pane top to bottom
+        const nodes = Array.from(this.root.querySelectorAll<HTMLTextAreaElement | HTMLDetailsElement>("textarea.imgmeta-search-target, details.imgmeta-json-section"));
+        return nodes.filter((n) => isTextarea(n) || jsonSectionValue(n) !== undefined);
+    }
+
+    private collectMatches(targets: (HTMLTextAreaElement | HTMLDetailsElement)[]) {
+        const add = (m: SearchMatch) => {
+            if (this.matches.length >= MAX_MATCHES) { this.capped = true; return false; }
+            this.matches.push(m);
+            return true;
+        };
+        for (const t of targets) {
+            if (isTextarea(t)) {
+                for (const r of this.findRanges(t.value ?? "")) if (!add({ kind: "text", el: t, ...r })) return;
+                continue;
+            }
+            const section = t;
+            const visit = (v: unknown, keys: string[], key: string | null): boolean => {
+                if (key !== null) {
+                    for (const r of this.findRanges(key)) if (!add({ kind: "json", section, keys, part: "key", ...r })) return false;
+                }
+                if (v === null || typeof v !== "object") {
+                    for (const r of this.findRanges(jsonSearchText(v))) if (!add({ kind: "json", section, keys, part: "value", ...r })) return false;
+                    return true;
+                }
+                const arr = Array.isArray(v);
+                for (const k of Object.keys(v)) {
+                    if (!visit((v as Record<string, unknown>)[k], keys.concat(k), arr ? null : k)) return false;
+                }
+                return true;
+            };
+            if (!visit(jsonSectionValue(section), [], null)) return;
+        }
+    }
+
+    private compilePattern() {
+        this.pattern = null;
+        this.patternError = null;
+        try {
+            this.pattern = compileSearchPattern(this.query, { regex: this.regex, caseSensitive: this.caseSensitive, wholeWord: this.wholeWord });
+        } catch (e) {
+            this.patternError = e instanceof Error ? e.message : String(e);
+        }
+    }
+
+    private findRanges(text: string): { start: number; end: number }[] {
+        return findMatchRanges(this.pattern, text);
+    }
+
+    private escapeHtml(s: string): string {
+        return s.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[ch] as string));
+    }
+
+    private renderOverlayFor(target: HTMLTextAreaElement, ranges: { start: number; end: number; isCurrent?: boolean }[] | null) {
+        const overlayInner = overlays.get(target);
+        if (!overlayInner) return;
+        const text = target.value ?? "";
+        if (!ranges || ranges.length === 0) {
+            overlayInner.textContent = text;
+            return;
+        }
+        const rs = [...ranges].sort((a, b) => a.start - b.start);
+        let pos = 0;
+        const parts: string[] = [];
+        for (const r of rs) {
+            if (r.start > pos) parts.push(this.escapeHtml(text.slice(pos, r.start)));
+            const mid = this.escapeHtml(text.slice(r.start, r.end));
+            const cls = r.isCurrent ? "imgmeta-hit-range is-current" : "imgmeta-hit-range";
+            parts.push(`<span class="${cls}">${mid}</span>`);
+            pos = r.end;
+        }
+        if (pos < text.length) parts.push(this.escapeHtml(text.slice(pos)));
+        overlayInner.innerHTML = parts.join("");
+    }
+
+    // Faint highlight for every textarea match; `currentIndex` is drawn outlined
+    private renderAllOverlays(currentIndex: number | null) {
+        const groups = new Map<HTMLTextAreaElement, { start: number; end: number; isCurrent?: boolean }[]>();
+        this.matches.forEach((m, idx) => {
+            if (m.kind !== "text") return;
+            const arr = groups.get(m.el) ?? [];
+            arr.push({ start: m.start, end: m.end, isCurrent: currentIndex === idx });
+            groups.set(m.el, arr);
+        });
+        for (const t of this.collectTargets()) {
+            if (isTextarea(t)) this.renderOverlayFor(t, groups.get(t) ?? null);
+        }
+    }
+
+    private clearCurrent() {
+        if (this.highlightedEl) { this.highlightedEl.classList.remove("imgmeta-hit"); this.highlightedEl = null; }
+        if (this.highlightedTree) { this.highlightedTree.clearHighlight(); this.highlightedTree = null; }
+    }
+
+    private focusCurrentMatch() {
+        if (this.matchIndex < 0 || this.matchIndex >= this.matches.length) return;
+        const m = this.matches[this.matchIndex];
+        const anchor = m.kind === "text" ? m.el : m.section;
+        // Open any <details> ancestors
+        let p: HTMLElement | null = anchor.parentElement;
+        while (p) {
+            if (p.tagName.toLowerCase() === "details") {
+                (p as HTMLDetailsElement).open = true;
+            }
+            p = p.parentElement;
+        }
+        this.clearCurrent();
+        // Re-render overlays to mark current distinctly
+        this.renderAllOverlays(this.matchIndex);
+        if (m.kind === "text") {
+            m.el.classList.add("imgmeta-hit");
+            this.highlightedEl = m.el;
+            try { m.el.setSelectionRange(m.start, m.end); } catch { /* ignore */ }
+            this.ensureCurrentVisible(m.el);
+            m.el.scrollIntoView({ block: "nearest" });
+        } else {
+            const tree = openJsonSection(m.section);
+            const hit = tree?.highlight(m.keys, m.part, m.start, m.end);
+            if (tree) this.highlightedTree = tree;
+            hit?.scrollIntoView({ block: "nearest" });
+        }
+        this.updateCount();
+    }
+
+    private ensureCurrentVisible(ta: HTMLTextAreaElement) {
+        const overlayInner = overlays.get(ta);
+        const overlay = overlayInner?.parentElement as HTMLElement | undefined;
+        if (!overlayInner || !overlay) return;
+        const current = overlayInner.querySelector<HTMLElement>(".imgmeta-hit-range.is-current");
+        if (!current) return;
+        const rSpan = current.getBoundingClientRect();
+        const rOverlay = overlay.getBoundingClientRect();
+        let newTop = ta.scrollTop;
+        let newLeft = ta.scrollLeft;
+        const padY = 8; // matches textarea padding
+        const padX = 12;
+        if (rSpan.top < rOverlay.top + padY) {
+            newTop += (rSpan.top - (rOverlay.top + padY));
+        } else if (rSpan.bottom > rOverlay.bottom - padY) {
+            newTop += (rSpan.bottom - (rOverlay.bottom - padY));
+        }
+        if (rSpan.left < rOverlay.left + padX) {
+            newLeft += (rSpan.left - (rOverlay.left + padX));
+        } else if (rSpan.right > rOverlay.right - padX) {
+            newLeft += (rSpan.right - (rOverlay.right - padX));
+        }
+        newTop = Math.max(0, Math.round(newTop));
+        newLeft = Math.max(0, Math.round(newLeft));
+        if (newTop !== ta.scrollTop) ta.scrollTop = newTop;
+        if (newLeft !== ta.scrollLeft) ta.scrollLeft = newLeft;
+    }
+
+    private updateCount() {
+        if (!this.countEl) return;
+        this.inputEl?.classList.toggle("is-invalid", !!this.patternError);
+        this.countEl.title = this.patternError ?? "";
+        if (this.enabled && this.patternError) { this.countEl.textContent = "Invalid"; return; }
+        const total = `${this.matches.length}${this.capped ? "+" : ""}`;
+        const current = this.matchIndex >= 0 ? (this.matchIndex + 1) : 0;
+        this.countEl.textContent = this.enabled ? (this.matches.length > 0 ? `${current}/${total}` : "0/0") : "–";
+    }
+
+    private setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        if (!this.barEl) return;
+        this.barEl.classList.toggle("is-disabled", !enabled);
+        if (this.inputEl) this.inputEl.disabled = !enabled;
+        for (const b of this.buttons) b.disabled = !enabled;
+        this.updateCount();
+    }
+}
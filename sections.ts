@@ -0,0 +1,216 @@
+import type { CameraInfo, FileInfo, GpsInfo } from "./parser";
+import type { NovelAICharacter } from "./novelai";
+import type { ComfyMissingPack, ComfySamplerStage } from "./comfy";
+import { formatExposureTime, formatCoordinates } from "./exif";
+import { renderJsonSection } from "./jsontree";
+
+/**
+ * Shared section renderers used by both the sidebar view and the modal.
+ * Each section is a collapsible <details> with a Copy button in its summary.
+ */
+export type KeyValueRow = [label: string, value: string];
+
+export function renderKeyValueSection(
+    parent: HTMLElement,
+    title: string,
+    rows: KeyValueRow[],
+    copy: (text: string) => unknown,
+    open = true
+): HTMLDetailsElement | null {
+    if (!rows.length) return null;
+    const details = parent.createEl("details", { cls: "imgmeta-details" });
+    details.open = open;
+    const sum = details.createEl("summary");
+    sum.setText(title);
+    const copyBtn = sum.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+    copyBtn.onclick = (ev) => {
+        ev.preventDefault(); ev.stopPropagation();
+        copy(rows.map(([k, v]) => `${k}: ${v}`).join("\n"));
+    };
+    const table = details.createEl("table", { cls: "imgmeta-kv" });
+    for (const [k, v] of rows) {
+        const tr = table.createEl("tr");
+        tr.createEl("th", { text: k });
+        tr.createEl("td", { text: v });
+    }
+    return details;
+}
+
+const round = (n: number, digits = 2) => String(Math.round(n * Math.pow(10, digits)) / Math.pow(10, digits));
+
+export function fileInfoRows(f: FileInfo): KeyValueRow[] {
+    const rows: KeyValueRow[] = [];
+    if (f.width !== undefined && f.height !== undefined) rows.push(["Dimensions", `${f.width}x${f.height}`]);
+    if (f.codec) rows.push(["Codec", f.codec]);
+    if (f.alpha !== undefined) rows.push(["Alpha", f.alpha ? "Yes" : "No"]);
+    if (f.bitDepth !== undefined) rows.push(["Bit depth", String(f.bitDepth)]);
+    if (f.colorType) rows.push(["Color type", f.colorType]);
+    if (f.interlaced !== undefined) rows.push(["Interlace", f.interlaced ? "Adam7" : "None"]);
+    if (f.dpiX !== undefined) rows.push(["DPI", f.dpiX === f.dpiY ? String(f.dpiX) : `${f.dpiX}x${f.dpiY}`]);
+    if (f.modified) rows.push(["Modified", f.modified]);
+    if (f.gamma !== undefined) rows.push(["Gamma", round(f.gamma, 5)]);
+    if (f.srgbIntent) rows.push(["sRGB intent", f.srgbIntent]);
+    if (f.iccProfile) rows.push(["ICC profile", f.iccProfile]);
+    else if (f.iccBytes !== undefined) rows.push(["ICC profile", f.iccBytes ? `Embedded (${f.iccBytes} bytes)` : "None"]);
+    if (f.frames !== undefined) rows.push(["Frames", String(f.frames)]);
+    if (f.loopCount !== undefined) rows.push(["Loop", f.loopCount === 0 ? "Infinite" : `${f.loopCount}x`]);
+    if (f.durationMs) rows.push(["Duration", `${round(f.durationMs / 1000, 2)} s`]);
+    if (f.features) rows.push(["VP8X flags", f.features.length ? f.features.join(", ") : "None"]);
+    if (f.chunks?.length) rows.push(["Chunks", f.chunks.join(", ")]);
+    if (f.stealth) rows.push(["Stealth info", f.stealth]);
+    return rows;
+}
+
+export function cameraRows(c: CameraInfo): KeyValueRow[] {
+    const rows: KeyValueRow[] = [];
+    const add = (label: string, v: string | undefined) => { if (v) rows.push([label, v]); };
+    const camera = [c.make, c.model && c.make && c.model.startsWith(c.make) ? c.model.slice(c.make.length).trim() : c.model]
+        .filter(Boolean).join(" ");
+    add("Camera", camera || undefined);
+    add("Lens", [c.lensMake, c.lensModel].filter(Boolean).join(" ") || undefined);
+    if (c.exposureTime !== undefined) add("Exposure", formatExposureTime(c.exposureTime));
+    if (c.fNumber !== undefined) add("Aperture", `f/${round(c.fNumber, 1)}`);
+    if (c.iso !== undefined) add("ISO", String(c.iso));
+    if (c.focalLength !== undefined) {
+        const eq = c.focalLength35mm ? ` (${c.focalLength35mm} mm equiv.)` : "";
+        add("Focal length", `${round(c.focalLength, 1)} mm${eq}`);
+    }
+    if (c.exposureBias !== undefined) add("Exposure bias", `${c.exposureBias > 0 ? "+" : ""}${round(c.exposureBias)} EV`);
+    add("Exposure program", c.exposureProgram);
+    add("Exposure mode", c.exposureMode);
+    add("Metering", c.meteringMode);
+    add("Flash", c.flash);
+    add("White balance", c.whiteBalance);
+    add("Scene", c.sceneCaptureType);
+    if (c.digitalZoomRatio) add("Digital zoom", `${round(c.digitalZoomRatio)}x`);
+    const withOffset = (dt?: string, off?: string) => dt ? (off ? `${dt} ${off}` : dt) : undefined;
+    add("Taken", withOffset(c.dateTimeOriginal, c.offsetTimeOriginal ?? c.offsetTime));
+    add("Digitized", withOffset(c.dateTimeDigitized, c.offsetTimeDigitized));
+    add("Modified", withOffset(c.dateTime, c.offsetTime));
+    if (c.orientation !== undefined) add("Orientation", c.orientationLabel ?? String(c.orientation));
+    if (c.pixelWidth && c.pixelHeight) add("Pixels", `${c.pixelWidth}x${c.pixelHeight}`);
+    add("Color space", c.colorSpace);
+    add("Software", c.software);
+    add("Artist", c.artist);
+    add("Copyright", c.copyright);
+    add("Serial number", c.bodySerialNumber);
+    return rows;
+}
+
+export function gpsRows(g: GpsInfo): KeyValueRow[] {
+    const rows: KeyValueRow[] = [];
+    const coords = formatCoordinates(g);
+    if (coords) rows.push(["Coordinates", coords]);
+    if (g.altitude !== undefined) rows.push(["Altitude", `${round(g.altitude, 1)} m`]);
+    if (g.timestamp) rows.push(["GPS time", g.timestamp]);
+    if (g.direction !== undefined) {
+        const ref = g.directionRef ? ` (${g.directionRef} north)` : "";
+        rows.push(["Direction", `${round(g.direction, 1)}°${ref}`]);
+    }
+    if (g.mapDatum) rows.push(["Map datum", g.mapDatum]);
+    return rows;
+}
+
+// Normalized generation settings, in display order
+const SETTINGS_FIELDS: [string, string][] = [
+    ["generator", "Generator"], ["model", "Model"], ["model_hash", "Model hash"], ["vae", "VAE"],
+    ["sampler", "Sampler"], ["scheduler", "Scheduler"], ["steps", "Steps"], ["cfg_scale", "CFG scale"],
+    ["seed", "Seed"], ["size", "Size"], ["denoise", "Denoise"], ["clip_skip", "Clip skip"], ["upscaler", "Upscaler"],
+    ["version", "Version"],
+];
+
+/** Display labels for normalized field keys (Settings order first). */
+export const FIELD_LABELS: Record<string, string> = {};
+for (const [k, label] of SETTINGS_FIELDS) FIELD_LABELS[k] = label;
+FIELD_LABELS["prompt"] = "Prompt";
+FIELD_LABELS["negative_prompt"] = "Negative prompt";
+FIELD_LABELS["width"] = "Width";
+FIELD_LABELS["height"] = "Height";
+FIELD_LABELS["vae_hash"] = "VAE hash";
+FIELD_LABELS["variation_seed"] = "Variation seed";
+FIELD_LABELS["variation_seed_strength"] = "Variation strength";
+FIELD_LABELS["hires"] = "Hires fix";
+FIELD_LABELS["lora_hashes"] = "LoRA hashes";
+FIELD_LABELS["ti_hashes"] = "Embedding hashes";
+FIELD_LABELS["hashes"] = "Hashes";
+FIELD_LABELS["loras"] = "LoRAs";
+FIELD_LABELS["controlnets"] = "ControlNets";
+
+/** One summary row per ComfyUI sampler stage, plus prompts that differ from the first stage. */
+export function stageRows(stages: ComfySamplerStage[]): KeyValueRow[] {
+    const rows: KeyValueRow[] = [];
+    const base = stages[0];
+    stages.forEach((st, i) => {
+        const label = `${i + 1}. ${st.title ?? st.classType} #${st.id}`;
+        const parts: string[] = [];
+        if (st.sampler) parts.push(st.scheduler ? `${st.sampler} / ${st.scheduler}` : st.sampler);
+        if (st.steps !== undefined) parts.push(`${st.steps} steps`);
+        if (st.startStep !== undefined || st.endStep !== undefined) parts.push(`steps ${st.startStep ?? 0}–${st.endStep ?? "end"}`);
+        if (st.cfg !== undefined) parts.push(`CFG ${st.cfg}`);
+        if (st.seed !== undefined) parts.push(`seed ${st.seed}`);
+        if (st.denoise !== undefined) parts.push(`denoise ${st.denoise}`);
+        if (st.width !== undefined && st.height !== undefined) parts.push(`${st.width}x${st.height}`);
+        if (st.latentUpscale) parts.push(`upscale ${st.latentUpscale}`);
+        if (st.fromStage) parts.push(`from #${st.fromStage}`);
+        if (st.model && st.model !== base.model) parts.push(st.model);
+        rows.push([label, parts.join(", ")]);
+        if (i > 0 && st.positive && st.positive !== base.positive) rows.push([`${label} prompt`, st.positive]);
+        if (i > 0 && st.negative && st.negative !== base.negative) rows.push([`${label} negative`, st.negative]);
+    });
+    return rows;
+}
+
+/**
+ * ComfyUI class types missing from the configured object_info export, one row
+ * per node pack; a single status row when all `typeCount` types are installed.
+ */
+export function missingNodeRows(packs: ComfyMissingPack[], typeCount: number): KeyValueRow[] {
+    if (!packs.length) return typeCount ? [["Status", `All ${typeCount} node type${typeCount === 1 ? "" : "s"} installed`]] : [];
+    return packs.map((p): KeyValueRow => [
+        `${p.pack ?? "Unknown pack"}${p.version ? ` @ ${p.version}` : ""}`,
+        p.classTypes.join(", "),
+    ]);
+}
+
+/** NovelAI V4 per-character prompts. */
+export function characterRows(chars: NovelAICharacter[]): KeyValueRow[] {
+    const rows: KeyValueRow[] = [];
+    chars.forEach((c, i) => {
+        const label = `Character ${i + 1}`;
+        rows.push([label, c.prompt]);
+        if (c.negativePrompt) rows.push([`${label} (negative)`, c.negativePrompt]);
+        if (c.center) rows.push([`${label} (center)`, c.center]);
+    });
+    return rows;
+}
+
+/** GPS section: key/value rows plus a copyable coordinate string and a `geo:` link. */
+export function renderGpsSection(parent: HTMLElement, g: GpsInfo, copy: (text: string) => unknown): HTMLDetailsElement | null {
+    const details = renderKeyValueSection(parent, "Location (GPS)", gpsRows(g), copy);
+    const coords = formatCoordinates(g);
+    if (!details || !coords) return details;
+    const ctr = details.createDiv({ cls: "imgmeta-controls" });
+    const copyBtn = ctr.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy coordinates" });
+    copyBtn.onclick = () => copy(coords);
+    const geo = `geo:${g.latitude},${g.longitude}`;
+    const link = ctr.createEl("a", { cls: "imgmeta-inline-btn", text: "Open geo: link", href: geo });
+    link.setAttr("title", geo);
+    return details;
+}
+
+/** Warning badge shown next to the title whenever an image carries location data. */
+export function renderLocationBadge(parent: HTMLElement): HTMLSpanElement {
+    const badge = parent.createEl("span", { cls: "imgmeta-badge imgmeta-badge--warning", text: "Location data" });
+    badge.setAttr("title", "This image contains GPS coordinates. Sharing it reveals where it was taken.");
+    return badge;
+}
+
+/** Notice for a header-only result (file too large to read whole). */
+export function renderHeadOnlyNotice(parent: HTMLElement): HTMLDivElement {
+    return parent.createDiv({ cls: "imgmeta-partial", text: "Large file: read header-only, without recovery scans or stealth decoding" });
+}
+
+/** Collapsed "Raw chunks" section with the text chunks as a JSON tree. */
+export function renderRawChunksSection(parent: HTMLElement, raw: Record<string, string>, copy: (text: string) => unknown): HTMLDetailsElement {
+    return renderJsonSection(parent, "Raw chunks (tEXt/iTXt/zTXt)", raw, copy);
+}
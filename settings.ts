@@ -0,0 +1,175 @@
+import { App, PluginSettingTab, Setting, TFile, debounce, normalizePath } from "obsidian";
+import { SUPPORTED_EXTENSIONS } from "./parser";
+import type ImageMetadataViewerPlugin from "./main";
+
+/** Optional sections; each can be hidden in both the sidebar and the modal. */
+export type SectionId = "file" | "camera" | "location" | "graph" | "nodes";
+
+// Text fields save once typing pauses
+const TEXT_SAVE_DELAY_MS = 500;
+
+const SECTION_NAMES: Record<SectionId, string> = {
+    file: "File",
+    camera: "Camera (EXIF)",
+    location: "Location (GPS)",
+    graph: "ComfyUI graph (sidebar)",
+    nodes: "ComfyUI nodes",
+};
+
+export interface ImageMetaSettings {
+    /** File extensions the plugin handles (subset of SUPPORTED_EXTENSIONS) */
+    extensions: string[];
+    /** Open the sidebar view when an image is opened and no sidebar view exists */
+    autoOpenSidebar: boolean;
+    /** Show the raw text chunks in the sidebar too (always shown in the modal) */
+    sidebarRawChunks: boolean;
+    sections: Record<SectionId, boolean>;
+    /** Export folder; empty = next to the image */
+    exportFolder: string;
+    /** Export file name; `{name}` is the image basename, `{kind}` is "prompt" or "workflow" */
+    exportNameTemplate: string;
+    /** Decode stealth LSB payloads from PNG pixels when text chunks are missing */
+    stealth: boolean;
+    /** Vault path of a ComfyUI `/object_info` export; enables the missing-node report */
+    objectInfoPath: string;
+}
+
+export const DEFAULT_SETTINGS: ImageMetaSettings = {
+    extensions: [...SUPPORTED_EXTENSIONS],
+    autoOpenSidebar: true,
+    sidebarRawChunks: false,
+    sections: { file: true, camera: true, location: true, graph: true, nodes: true },
+    exportFolder: "",
+    exportNameTemplate: "{name}.{kind}.json",
+    stealth: false,
+    objectInfoPath: "",
+};
+
+/** Merge saved data over the defaults (nested `sections` included). */
+export function mergeSettings(data: any): ImageMetaSettings {
+    const saved = data && typeof data === "object" ? data : {};
+    return {
+        ...DEFAULT_SETTINGS,
+        ...saved,
+        extensions: Array.isArray(saved.extensions) ? saved.extensions : [...DEFAULT_SETTINGS.extensions],
+        sections: { ...DEFAULT_SETTINGS.sections, ...(saved.sections ?? {}) },
+    };
+}
+
+export function isEnabledExtension(settings: ImageMetaSettings, ext: string): boolean {
+    const lower = ext.toLowerCase();
+    return SUPPORTED_EXTENSIONS.includes(lower) && settings.extensions.includes(lower);
+}
+
+/** First free export path for a prompt/workflow JSON; numbered `.1`, `.2`, ... before the extension on collision. */
+export function exportTargetPath(app: App, settings: ImageMetaSettings, file: TFile, kind: "prompt" | "workflow"): string {
+    const folder = settings.exportFolder.trim() || file.parent?.path || "";
+    let name = (settings.exportNameTemplate.trim() || DEFAULT_SETTINGS.exportNameTemplate)
+        .replace(/\{name\}/g, file.basename)
+        .replace(/\{kind\}/g, kind);
+    if (!/\.json$/i.test(name)) name += ".json";
+    const stem = name.slice(0, -".json".length);
+    const join = (n: string) => normalizePath(folder && folder !== "/" ? `${folder}/${n}` : n);
+    let target = join(name);
+    let i = 1;
+    while (app.vault.getAbstractFileByPath(target)) {
+        target = join(`${stem}.${i}.json`);
+        i++;
+    }
+    return target;
+}
+
+/** Create the parent folder of a vault path if it does not exist yet (configured export folder). */
+export async function ensureFolder(app: App, path: string) {
+    const i = path.lastIndexOf("/");
+    if (i <= 0) return;
+    const folder = path.slice(0, i);
+    if (!app.vault.getAbstractFileByPath(folder)) await app.vault.createFolder(folder);
+}
+
+export class ImageMetaSettingTab extends PluginSettingTab {
+    private readonly saveSoon = debounce(() => { void this.plugin.saveSettings(); }, TEXT_SAVE_DELAY_MS, true);
+
+    constructor(app: App, private plugin: ImageMetadataViewerPlugin) { super(app, plugin); }
+
+    hide() {
+        this.saveSoon.run();
+    }
+
+    display() {
+        const { containerEl } = this;
+        containerEl.empty();
+        const settings = this.plugin.settings;
+        const save = () => this.plugin.saveSettings();
+
+        new Setting(containerEl).setName("Formats").setHeading();
+        for (const ext of SUPPORTED_EXTENSIONS) {
+            new Setting(containerEl)
+                .setName(ext)
+                .addToggle((t) => t
+                    .setValue(settings.extensions.includes(ext))
+                    .onChange(async (on) => {
+                        settings.extensions = SUPPORTED_EXTENSIONS.filter((e) => (e === ext ? on : settings.extensions.includes(e)));
+                        await this.plugin.saveSettings(true);
+                    }));
+        }
+
+        new Setting(containerEl).setName("Sidebar").setHeading();
+        new Setting(containerEl)
+            .setName("Open sidebar automatically")
+            .setDesc("Open the metadata sidebar when an image is opened. When off, an already open sidebar still follows the active file.")
+            .addToggle((t) => t
+                .setValue(settings.autoOpenSidebar)
+                .onChange(async (on) => { settings.autoOpenSidebar = on; await save(); }));
+        new Setting(containerEl)
+            .setName("Raw chunks in sidebar")
+            .setDesc("Also show the raw text chunks section in the sidebar (always shown in the modal).")
+            .addToggle((t) => t
+                .setValue(settings.sidebarRawChunks)
+                .onChange(async (on) => { settings.sidebarRawChunks = on; await save(); }));
+
+        new Setting(containerEl).setName("Sections").setHeading();
+        for (const id of Object.keys(SECTION_NAMES) as SectionId[]) {
+            const setting = new Setting(containerEl)
+                .setName(SECTION_NAMES[id])
+                .addToggle((t) => t
+                    .setValue(settings.sections[id])
+                    .onChange(async (on) => { settings.sections[id] = on; await save(); }));
+            if (id === "location") setting.setDesc("The “Location data” warning badge is shown either way.");
+        }
+
+        new Setting(containerEl).setName("Export").setHeading();
+        new Setting(containerEl)
+            .setName("Export folder")
+            .setDesc("Folder for exported prompt/workflow JSON. Leave empty to export next to the image.")
+            .addText((t) => t
+                .setPlaceholder("exports/comfy")
+                .setValue(settings.exportFolder)
+                .onChange((v) => { settings.exportFolder = v.trim(); this.saveSoon(); }));
+        new Setting(containerEl)
+            .setName("Export file name")
+            .setDesc("{name} is the image name without extension, {kind} is prompt or workflow.")
+            .addText((t) => t
+                .setPlaceholder(DEFAULT_SETTINGS.exportNameTemplate)
+                .setValue(settings.exportNameTemplate)
+                .onChange((v) => { settings.exportNameTemplate = v.trim(); this.saveSoon(); }));
+
+        new Setting(containerEl).setName("Parsing").setHeading();
+        new Setting(containerEl)
+            .setName("Decode stealth PNG info")
+            .setDesc("Read metadata hidden in the pixel LSBs of PNGs without text chunks. Off by default: decoding pixels is slower on large images.")
+            .addToggle((t) => t
+                .setValue(settings.stealth)
+                .onChange(async (on) => { settings.stealth = on; await this.plugin.saveSettings(true); }));
+        new Setting(containerEl)
+            .setName("ComfyUI object_info.json")
+            .setDesc("Vault path of a file saved from ComfyUI's /object_info endpoint. Node types an image uses that are not listed there are reported as missing, grouped by node pack.")
+            .addText((t) => t
+                .setPlaceholder("comfy/object_info.json")
+                .setValue(settings.objectInfoPath)
+                .onChange((v) => {
+                    settings.objectInfoPath = v.trim();
+                    this.saveSoon();
+                }));
+    }
+}
@@ -0,0 +1,149 @@
+import { unzlibSync, gunzipSync, strFromU8 } from "fflate";
+
+/**
+ * "Stealth PNG info": metadata hidden in the least significant bits of the
+ * pixels, written by the sd-webui-stealth-pnginfo extension and by NovelAI.
+ * It survives tools that strip text chunks.
+ *
+ * Pixels are visited column by column (x outer, y inner). The bit stream is:
+ *   signature  15 bytes  "stealth_pnginfo" / "stealth_pngcomp" (alpha LSB)
+ *                        "stealth_rgbinfo" / "stealth_rgbcomp" (R, G, B LSBs)
+ *   length     32 bits   payload length in bits, MSB first
+ *   payload    UTF-8 text, gzip-compressed for the *comp variants
+ */
+export type StealthPayload = {
+    mode: "alpha" | "rgb";
+    compressed: boolean;
+    text: string;
+};
+
+const SIGNATURES: Record<string, { mode: "alpha" | "rgb"; compressed: boolean }> = {
+    "stealth_pnginfo": { mode: "alpha", compressed: false },
+    "stealth_pngcomp": { mode: "alpha", compressed: true },
+    "stealth_rgbinfo": { mode: "rgb", compressed: false },
+    "stealth_rgbcomp": { mode: "rgb", compressed: true },
+};
+const SIGNATURE_BITS = 15 * 8;
+
+/**
+ * Decode a stealth payload from a PNG. Only 8-bit, non-interlaced RGB/RGBA
+ * images are supported; returns null when there is no valid signature.
+ */
+export function readStealthPngInfo(u8: Uint8Array): StealthPayload | null {
+    const img = decodePngPixels(u8);
+    if (!img) return null;
+    const { width, height, channels, pixels } = img;
+    const hasAlpha = channels === 4;
+
+    // Bit readers over the column-major pixel order
+    const alphaBit = (i: number) => {
+        const x = Math.floor(i / height), y = i % height;
+        return pixels[(y * width + x) * channels + 3] & 1;
+    };
+    const rgbBit = (i: number) => {
+        const p = Math.floor(i / 3);
+        const x = Math.floor(p / height), y = p % height;
+        return pixels[(y * width + x) * channels + (i % 3)] & 1;
+    };
+    const readBytes = (bit: (i: number) => number, start: number, count: number, limit: number): Uint8Array | null => {
+        if (start + count * 8 > limit) return null;
+        const out = new Uint8Array(count);
+        for (let b = 0; b < count; b++) {
+            let v = 0;
+            for (let k = 0; k < 8; k++) v = (v << 1) | bit(start + b * 8 + k);
+            out[b] = v;
+        }
+        return out;
+    };
+
+    const candidates: [(i: number) => number, number][] = [];
+    if (hasAlpha) candidates.push([alphaBit, width * height]);
+    candidates.push([rgbBit, width * height * 3]);
+    for (const [bit, limit] of candidates) {
+        const sig = readBytes(bit, 0, 15, limit);
+        if (!sig) continue;
+        const info = SIGNATURES[String.fromCharCode.apply(null, Array.from(sig))];
+        if (!info || (info.mode === "alpha") !== (bit === alphaBit)) continue;
+        const lenBytes = readBytes(bit, SIGNATURE_BITS, 4, limit);
+        if (!lenBytes) continue;
+        const bitLen = ((lenBytes[0] << 24) | (lenBytes[1] << 16) | (lenBytes[2] << 8) | lenBytes[3]) >>> 0;
+        const data = readBytes(bit, SIGNATURE_BITS + 32, Math.floor(bitLen / 8), limit);
+        if (!data) continue;
+        try {
+            const text = strFromU8(info.compressed ? gunzipSync(data) : data);
+            return { mode: info.mode, compressed: info.compressed, text };
+        } catch { /* ignore */ }
+    }
+    return null;
+}
+
+type PngPixels = { width: number; height: number; channels: number; pixels: Uint8Array };
+
+// Inflate IDAT and undo the per-scanline filters (8-bit RGB/RGBA, no interlace)
+function decodePngPixels(u8: Uint8Array): PngPixels | null {
+    const u32 = (a: Uint8Array, o: number) => ((a[o] << 24) | (a[o + 1] << 16) | (a[o + 2] << 8) | a[o + 3]) >>> 0;
+    let off = 8;
+    let width = 0, height = 0, channels = 0;
+    const idat: Uint8Array[] = [];
+    let idatLen = 0;
+    while (off + 8 <= u8.length) {
+        const len = u32(u8, off);
+        const type = String.fromCharCode(u8[off + 4], u8[off + 5], u8[off + 6], u8[off + 7]);
+        const data = u8.subarray(off + 8, Math.min(u8.length, off + 8 + len));
+        off += 12 + len;
+        if (type === "IHDR") {
+            if (data.length < 13) return null;
+            width = u32(data, 0);
+            height = u32(data, 4);
+            const bitDepth = data[8], colorType = data[9], interlace = data[12];
+            if (bitDepth !== 8 || interlace !== 0) return null;
+            if (colorType === 6) channels = 4;
+            else if (colorType === 2) channels = 3;
+            else return null;
+        } else if (type === "IDAT") {
+            idat.push(data);
+            idatLen += data.length;
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+    if (!width || !height || !channels || !idat.length) return null;
+
+    const joined = new Uint8Array(idatLen);
+    let q = 0; for (const part of idat) { joined.set(part, q); q += part.length; }
+    const stride = width * channels;
+    let inflated: Uint8Array;
+    try { inflated = unzlibSync(joined); } catch { return null; }
+    if (inflated.length < (stride + 1) * height) return null;
+
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = inflated[y * (stride + 1)];
+        const src = y * (stride + 1) + 1;
+        const dst = y * stride;
+        for (let i = 0; i < stride; i++) {
+            const raw = inflated[src + i];
+            const a = i >= channels ? pixels[dst + i - channels] : 0;
+            const b = y > 0 ? pixels[dst - stride + i] : 0;
+            const c = y > 0 && i >= channels ? pixels[dst - stride + i - channels] : 0;
+            let v: number;
+            switch (filter) {
+                case 0: v = raw; break;
+                case 1: v = raw + a; break;
+                case 2: v = raw + b; break;
+                case 3: v = raw + ((a + b) >> 1); break;
+                case 4: v = raw + paeth(a, b, c); break;
+                default: return null;
+            }
+            pixels[dst + i] = v & 0xff;
+        }
+    }
+    return { width, height, channels, pixels };
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseA1111Parameters, tokenizeSettingsLine } from "../a1111";
+
+test("settings line: quoted values are unquoted and may contain commas", () => {
+    const line = 'Steps: 20, Sampler: DPM++ 2M, Lora hashes: "add_detail: 7c6bc3e2, sharp: 1a2b3c4d", Hires prompt: "a \\"red\\" car, night"';
+    assert.deepEqual(tokenizeSettingsLine(line), [
+        { key: "Steps", value: "20" },
+        { key: "Sampler", value: "DPM++ 2M" },
+        { key: "Lora hashes", value: "add_detail: 7c6bc3e2, sharp: 1a2b3c4d" },
+        { key: "Hires prompt", value: 'a "red" car, night' },
+    ]);
+});
+
+test("settings line: JSON objects and arrays are kept verbatim", () => {
+    const line = 'Seed: 42, Hashes: {"vae": "735e4c3a", "model": "6ce0161689"}, Regions: [1, [2, 3]], Version: v1.10.1';
+    assert.deepEqual(tokenizeSettingsLine(line), [
+        { key: "Seed", value: "42" },
+        { key: "Hashes", value: '{"vae": "735e4c3a", "model": "6ce0161689"}' },
+        { key: "Regions", value: "[1, [2, 3]]" },
+        { key: "Version", value: "v1.10.1" },
+    ]);
+});
+
+test("parameters block: prompts, typed settings and hires", () => {
+    const p = parseA1111Parameters([
+        "a cat,",
+        "sitting",
+        "Negative prompt: blurry",
+        'Steps: 30, Sampler: Euler a, CFG scale: 7.5, Seed: 1234567890, Size: 512x768, Model: sd15, Hires upscale: 2, Lora hashes: "add_detail: 7c6bc3e2", Custom: x',
+    ].join("\n"));
+    assert.ok(p);
+    assert.equal(p.prompt, "a cat,\nsitting");
+    assert.equal(p.negativePrompt, "blurry");
+    assert.equal(p.steps, 30);
+    assert.equal(p.sampler, "Euler a");
+    assert.equal(p.cfgScale, 7.5);
+    assert.equal(p.seed, 1234567890);
+    assert.deepEqual([p.width, p.height], [512, 768]);
+    assert.equal(p.model, "sd15");
+    assert.deepEqual(p.hires, { upscale: 2 });
+    assert.deepEqual(p.loraHashes, { add_detail: "7c6bc3e2" });
+    assert.deepEqual(p.extra, { Custom: "x" });
+});
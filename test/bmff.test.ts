@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readHeifItems, readMp4Tags } from "../bmff";
+import { ascii, box, concat, fullBox, u16, u32, u8, utf8 } from "./bytes";
+
+const TIFF = [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00];
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF/></x:xmpmeta>';
+
+function infe(id: number, type: string, contentType?: string) {
+    return fullBox("infe", 2, 0, u16(id), u16(0), ascii(type), [0], contentType ? [...ascii(contentType), 0] : []);
+}
+
+// Primary av01 item with an ispe, an Exif item in idat and an XMP item in mdat
+function avif(mdatOffset: number): Uint8Array {
+    const exifItem = concat(u32(0), TIFF);
+    const xmp = utf8(XMP);
+    const ilocEntry = (id: number, method: number, offset: number, length: number) =>
+        concat(u16(id), u16(method), u16(0), u16(1), u32(offset), u32(length));
+    const meta = fullBox("meta", 0, 0,
+        fullBox("hdlr", 0, 0, u32(0), ascii("pict"), u32(0), u32(0), u32(0), [0]),
+        fullBox("pitm", 0, 0, u16(1)),
+        fullBox("iinf", 0, 0, u16(3), infe(1, "av01"), infe(2, "Exif"), infe(3, "mime", "application/rdf+xml")),
+        fullBox("iloc", 1, 0, [0x44, 0x00], u16(3),
+            ilocEntry(1, 0, mdatOffset + xmp.length, 4),
+            ilocEntry(2, 1, 0, exifItem.length),
+            ilocEntry(3, 0, mdatOffset, xmp.length)),
+        box("iprp",
+            box("ipco", fullBox("ispe", 0, 0, u32(1920), u32(1080))),
+            fullBox("ipma", 0, 0, u32(1), u16(1), u8(1), u8(0x81))),
+        box("idat", exifItem));
+    const ftyp = box("ftyp", ascii("avif"), u32(0), ascii("mif1"), ascii("avif"));
+    return concat(ftyp, meta, box("mdat", xmp, [1, 2, 3, 4]));
+}
+
+test("HEIF items: brands, Exif from idat, XMP from mdat and primary item size", () => {
+    const probe = avif(0);
+    const file = avif(probe.length - 4 - utf8(XMP).length);
+    const items = readHeifItems(file);
+    assert.ok(items);
+    assert.equal(items.brand, "avif");
+    assert.deepEqual(items.compatible, ["mif1", "avif"]);
+    assert.deepEqual(Array.from(items.exif ?? []), TIFF);
+    assert.deepEqual(items.xmp.map((x) => new TextDecoder().decode(x)), [XMP]);
+    assert.equal(items.width, 1920);
+    assert.equal(items.height, 1080);
+});
+
+test("HEIF items: no meta box", () => {
+    assert.equal(readHeifItems(box("ftyp", ascii("heic"), u32(0), ascii("mif1"))), null);
+});
+
+test("MP4 tags: QuickTime text atoms and mdta keys", () => {
+    const prompt = '{"3":{"class_type":"KSampler","inputs":{}}}';
+    const text = (s: string) => concat(u16(utf8(s).length), u16(0x55c4), utf8(s));
+    const data = (s: string) => box("data", u32(1), u32(0), utf8(s));
+    // ilst item types are 1-based indexes into the keys box
+    const item = (index: number, value: string) => {
+        const body = data(value);
+        return concat(u32(body.length + 8), u32(index), body);
+    };
+    const keys = fullBox("keys", 0, 0, u32(2),
+        u32(8 + 6), ascii("mdta"), ascii("prompt"),
+        u32(8 + 8), ascii("mdta"), ascii("workflow"));
+    const meta = fullBox("meta", 0, 0,
+        fullBox("hdlr", 0, 0, u32(0), ascii("mdta"), u32(0), u32(0), u32(0), [0]),
+        keys,
+        box("ilst", item(1, prompt), item(2, "{}")));
+    const file = concat(
+        box("ftyp", ascii("isom"), u32(512), ascii("isom")),
+        box("moov", box("udta", box("\u00a9cmt", text("made with ComfyUI")), box("\u00a9too", text("Lavf60")), meta)),
+        box("mdat", [0, 0, 0, 0]));
+    assert.deepEqual(readMp4Tags(file), { comment: "made with ComfyUI", encoder: "Lavf60", prompt, workflow: "{}" });
+});
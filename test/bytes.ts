@@ -0,0 +1,56 @@
+/** Byte builders for hand-made container fixtures (big-endian unless noted). */
+
+export type Bytes = Uint8Array | number[];
+
+export function concat(...parts: Bytes[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let o = 0;
+    for (const p of parts) { out.set(p, o); o += p.length; }
+    return out;
+}
+
+export const u8 = (v: number) => [v & 0xff];
+export const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+export const u32 = (v: number) => [(v >>> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+export const u16le = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+export const u24le = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff];
+export const u32le = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+
+export function ascii(s: string): number[] {
+    return Array.from(s, (c) => c.charCodeAt(0) & 0xff);
+}
+
+export function utf8(s: string): Uint8Array {
+    return new TextEncoder().encode(s);
+}
+
+/** ISO-BMFF box: size, type, payload. */
+export function box(type: string, ...parts: Bytes[]): Uint8Array {
+    const body = concat(...parts);
+    return concat(u32(body.length + 8), ascii(type), body);
+}
+
+/** ISO-BMFF full box: version and flags before the payload. */
+export function fullBox(type: string, version: number, flags: number, ...parts: Bytes[]): Uint8Array {
+    return box(type, [version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff], ...parts);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let c = 0xffffffff;
+    for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+export const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/** PNG chunk: length, type, data, CRC. */
+export function pngChunk(type: string, ...parts: Bytes[]): Uint8Array {
+    const typed = concat(ascii(type), ...parts);
+    return concat(u32(typed.length - 4), typed, u32(crc32(typed)));
+}
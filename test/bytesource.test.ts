@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readMetadataBytes } from "../bytesource";
+import type { ByteSource } from "../bytesource";
+import { parseImageMeta } from "../parser";
+import { ascii, concat, pngChunk, PNG_SIGNATURE, u32 } from "./bytes";
+
+// In-memory source that counts the bytes handed out
+function memorySource(bytes: Uint8Array) {
+    let bytesRead = 0;
+    const src: ByteSource = {
+        size: bytes.length,
+        read: async (offset, length) => {
+            const out = bytes.subarray(offset, Math.min(bytes.length, offset + length));
+            bytesRead += out.length;
+            return out;
+        },
+        close: async () => { },
+    };
+    return { src, bytesRead: () => bytesRead };
+}
+
+test("PNG header-only read skips IDAT without reading it", async () => {
+    const idat = new Uint8Array(300 * 1024);
+    const png = concat(
+        PNG_SIGNATURE,
+        pngChunk("IHDR", u32(64), u32(64), [8, 2, 0, 0, 0]),
+        pngChunk("IDAT", idat), pngChunk("IDAT", idat), pngChunk("IDAT", idat), pngChunk("IDAT", idat),
+        pngChunk("tEXt", ascii("parameters"), [0], ascii("a cat")),
+        pngChunk("IEND"),
+    );
+    const { src, bytesRead } = memorySource(png);
+    const head = await readMetadataBytes(src);
+    assert.ok(head);
+    assert.ok(head.length < 100);
+    // The first window plus the headers after each IDAT chunk, not a window per chunk
+    assert.ok(bytesRead() < 300 * 1024, `read ${bytesRead()} bytes`);
+    const meta = await parseImageMeta(head.slice().buffer, "png");
+    assert.equal(meta.raw["parameters"], "a cat");
+});
@@ -0,0 +1,79 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { FileSystemAdapter, TFile } from "./obsidian";
+import { ParseCache } from "../cache";
+import { parseImageMeta } from "../parser";
+import { ascii, concat, pngChunk, PNG_SIGNATURE, u32 } from "./bytes";
+
+// Baseline JPEG without APPn text: JFIF header, a bare SOS and `size` bytes of scan data
+function plainJpeg(size: number): Uint8Array {
+    const head = [
+        0xff, 0xd8,
+        0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+        0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00,
+    ];
+    const out = new Uint8Array(head.length + size + 2);
+    out.set(head);
+    for (let i = 0; i < size; i++) out[head.length + i] = (i * 31) & 0x7f;
+    out.set([0xff, 0xd9], head.length + size);
+    return out;
+}
+
+const dirs: string[] = [];
+after(() => { for (const dir of dirs) rmSync(dir, { recursive: true, force: true }); });
+
+// Vault on a temp folder: ranged reads go through `fs`, whole-file reads are counted
+function setup(name: string, bytes: Uint8Array) {
+    const dir = mkdtempSync(path.join(tmpdir(), "imgmeta-"));
+    dirs.push(dir);
+    writeFileSync(path.join(dir, name), bytes);
+    (globalThis as any).window = { require: createRequire(import.meta.url) };
+    const adapter: any = new FileSystemAdapter(dir);
+    Object.assign(adapter, { exists: async () => false, mkdir: async () => { }, write: async () => { } });
+    let fullReads = 0;
+    const app: any = {
+        vault: {
+            adapter,
+            readBinary: async () => { fullReads++; return bytes.slice().buffer; },
+        },
+    };
+    const parser: any = { parse: (buf: ArrayBuffer, ext: string, opts: any) => parseImageMeta(buf, ext, opts) };
+    const cache = new ParseCache(app, "cache", parser, () => ({ stealth: true }));
+    return { cache, file: new TFile(name, bytes.length) as any, fullReads: () => fullReads };
+}
+
+test("a large PNG with generation text is parsed from its header only", async () => {
+    const png = concat(
+        PNG_SIGNATURE,
+        pngChunk("IHDR", u32(64), u32(64), [8, 2, 0, 0, 0]),
+        pngChunk("tEXt", ascii("parameters"), [0], ascii("a cat\nSteps: 20, Seed: 1")),
+        pngChunk("IDAT", new Uint8Array(2.5 * 1024 * 1024)),
+        pngChunk("IEND"),
+    );
+    const { cache, file, fullReads } = setup("render.png", png);
+    const meta = await cache.get(file);
+    assert.equal(meta.raw["parameters"], "a cat\nSteps: 20, Seed: 1");
+    assert.equal(meta.headOnly, undefined);
+    assert.equal(fullReads(), 0);
+});
+
+test("a large JPEG without generation data is read whole for the recovery scans", async () => {
+    const { cache, file, fullReads } = setup("photo.jpg", plainJpeg(2.5 * 1024 * 1024));
+    const meta = await cache.get(file);
+    assert.equal(meta.format, "jpeg");
+    assert.equal(meta.headOnly, undefined);
+    assert.equal(fullReads(), 1);
+    await cache.get(file);
+    assert.equal(fullReads(), 1);
+});
+
+test("a file above the whole-read limit without a header-only reader is rejected", async () => {
+    const { cache, file, fullReads } = setup("anim.gif", concat(ascii("GIF89a"), [1, 0, 1, 0, 0, 0, 0, 0x3b]));
+    file.stat.size = 65 * 1024 * 1024;
+    await assert.rejects(cache.get(file), /too large/);
+    assert.equal(fullReads(), 0);
+});
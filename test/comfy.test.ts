@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findMissingComfyNodes, listComfyNodeTypes, listComfyNodes, summarizeComfyGraph, uiWorkflowToApiGraph } from "../comfy";
+import type { ComfyGraph } from "../comfy";
+
+const checkpoint = { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "sdxl.safetensors" } };
+
+test("summarizeComfyGraph: prompt text through a Reroute and a LoRA chain", () => {
+    const graph: ComfyGraph = {
+        "1": checkpoint,
+        "2": { class_type: "LoraLoader", inputs: { lora_name: "style.safetensors", strength_model: 0.8, strength_clip: 0.5, model: ["1", 0], clip: ["1", 1] } },
+        "3": { class_type: "LoraLoaderModelOnly", inputs: { lora_name: "detail.safetensors", strength_model: 0.3, model: ["2", 0] } },
+        "4": { class_type: "CLIPTextEncode", inputs: { text: "a red fox", clip: ["2", 1] } },
+        "5": { class_type: "CLIPTextEncode", inputs: { text: "blurry", clip: ["2", 1] } },
+        "6": { class_type: "Reroute", inputs: { input: ["4", 0] } },
+        "7": { class_type: "EmptyLatentImage", inputs: { width: 1024, height: 768, batch_size: 1 } },
+        "8": {
+            class_type: "KSampler",
+            inputs: { seed: 7, steps: 25, cfg: 6, sampler_name: "euler", scheduler: "normal", denoise: 1, model: ["3", 0], positive: ["6", 0], negative: ["5", 0], latent_image: ["7", 0] },
+        },
+    };
+    const s = summarizeComfyGraph(graph);
+    assert.ok(s);
+    assert.equal(s.stages.length, 1);
+    const st = s.stages[0];
+    assert.equal(st.positive, "a red fox");
+    assert.equal(st.negative, "blurry");
+    assert.equal(st.model, "sdxl.safetensors");
+    assert.deepEqual(st.loras, [
+        { name: "style.safetensors", weight: 0.8, clipWeight: 0.5 },
+        { name: "detail.safetensors", weight: 0.3 },
+    ]);
+    assert.equal(st.width, 1024);
+    assert.equal(st.height, 768);
+    assert.deepEqual(s.checkpoints, ["sdxl.safetensors"]);
+});
+
+test("summarizeComfyGraph: hires stage after the base stage", () => {
+    const graph: ComfyGraph = {
+        "1": checkpoint,
+        "2": { class_type: "CLIPTextEncode", inputs: { text: "city at night", clip: ["1", 1] } },
+        "3": { class_type: "CLIPTextEncode", inputs: { text: "", clip: ["1", 1] } },
+        "4": { class_type: "EmptyLatentImage", inputs: { width: 512, height: 512, batch_size: 1 } },
+        // Refiner listed first to check the ordering
+        "10": {
+            class_type: "KSampler",
+            inputs: { seed: 2, steps: 12, cfg: 5, sampler_name: "dpmpp_2m", scheduler: "karras", denoise: 0.45, model: ["1", 0], positive: ["2", 0], negative: ["3", 0], latent_image: ["9", 0] },
+        },
+        "9": { class_type: "LatentUpscaleBy", inputs: { upscale_method: "bilinear", scale_by: 1.5, samples: ["5", 0] } },
+        "5": {
+            class_type: "KSampler",
+            inputs: { seed: 1, steps: 30, cfg: 7, sampler_name: "euler", scheduler: "normal", denoise: 1, model: ["1", 0], positive: ["2", 0], negative: ["3", 0], latent_image: ["4", 0] },
+        },
+    };
+    const s = summarizeComfyGraph(graph);
+    assert.ok(s);
+    assert.deepEqual(s.stages.map((st) => st.id), ["5", "10"]);
+    assert.equal(s.stages[0].steps, 30);
+    assert.equal(s.stages[0].width, 512);
+    assert.equal(s.stages[1].fromStage, "5");
+    assert.equal(s.stages[1].latentUpscale, "bilinear x1.5");
+    assert.equal(s.stages[1].denoise, 0.45);
+    assert.equal(s.stages[1].negative, undefined);
+});
+
+test("summarizeComfyGraph: null without a sampler", () => {
+    assert.equal(summarizeComfyGraph({ "1": checkpoint }), null);
+});
+
+test("uiWorkflowToApiGraph: names widgets and skips the seed control value", () => {
+    const wf = {
+        nodes: [
+            { id: 1, type: "CheckpointLoaderSimple", widgets_values: ["sd15.safetensors"], outputs: [{ type: "MODEL" }, { type: "CLIP" }, { type: "VAE" }] },
+            { id: 2, type: "CLIPTextEncode", title: "Positive", inputs: [{ name: "clip", type: "CLIP", link: 1 }], widgets_values: ["a boat"] },
+            { id: 3, type: "KSampler", inputs: [{ name: "model", type: "MODEL", link: 2 }, { name: "positive", type: "CONDITIONING", link: 3 }], widgets_values: [42, "randomize", 20, 7, "euler", "normal", 1] },
+            { id: 4, type: "MyCustomNode", inputs: [{ name: "amount", type: "FLOAT", widget: { name: "amount" }, link: null }], widgets_values: [0.5, "extra"] },
+        ],
+        links: [[1, 1, 1, 2, 0, "CLIP"], [2, 1, 0, 3, 0, "MODEL"], [3, 2, 0, 3, 1, "CONDITIONING"]],
+    };
+    assert.deepEqual(uiWorkflowToApiGraph(wf), {
+        "1": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "sd15.safetensors" } },
+        "2": { class_type: "CLIPTextEncode", inputs: { text: "a boat", clip: ["1", 1] }, _meta: { title: "Positive" } },
+        "3": {
+            class_type: "KSampler",
+            inputs: { seed: 42, steps: 20, cfg: 7, sampler_name: "euler", scheduler: "normal", denoise: 1, model: ["1", 0], positive: ["2", 0] },
+        },
+        "4": { class_type: "MyCustomNode", inputs: { amount: 0.5, widget_1: "extra" } },
+    });
+});
+
+test("uiWorkflowToApiGraph: resolves Reroute, PrimitiveNode, bypassed and muted nodes", () => {
+    const wf = {
+        nodes: [
+            { id: 1, type: "CheckpointLoaderSimple", widgets_values: ["base.safetensors"] },
+            { id: 2, type: "LoraLoaderModelOnly", mode: 4, inputs: [{ name: "model", type: "MODEL", link: 1 }], outputs: [{ type: "MODEL" }], widgets_values: ["off.safetensors", 1] },
+            { id: 3, type: "Reroute", inputs: [{ name: "", type: "*", link: 2 }] },
+            { id: 4, type: "PrimitiveNode", widgets_values: [1234, "fixed"] },
+            { id: 5, type: "CLIPTextEncode", mode: 2, widgets_values: ["muted"] },
+            {
+                id: 6, type: "KSampler",
+                inputs: [{ name: "model", type: "MODEL", link: 3 }, { name: "negative", type: "CONDITIONING", link: 4 }, { name: "seed", type: "INT", widget: { name: "seed" }, link: 5 }],
+                widgets_values: [0, "fixed", 10, 4, "euler", "simple", 1],
+            },
+        ],
+        links: [[1, 1, 0, 2, 0, "MODEL"], [2, 2, 0, 3, 0, "MODEL"], [3, 3, 0, 6, 0, "MODEL"], [4, 5, 0, 6, 1, "CONDITIONING"], [5, 4, 0, 6, 2, "INT"]],
+    };
+    const graph = uiWorkflowToApiGraph(wf);
+    assert.deepEqual(Object.keys(graph).sort(), ["1", "6"]);
+    assert.deepEqual(graph["6"].inputs, { seed: 1234, steps: 10, cfg: 4, sampler_name: "euler", scheduler: "simple", denoise: 1, model: ["1", 0] });
+});
+
+test("listComfyNodes: workflow-only images keep muted, bypassed and virtual nodes", () => {
+    const wf = {
+        nodes: [
+            { id: 1, type: "CheckpointLoaderSimple", widgets_values: ["base.safetensors"] },
+            { id: 3, type: "Reroute", inputs: [{ name: "", type: "*", link: 2 }] },
+            { id: 2, type: "LoraLoaderModelOnly", mode: 4, inputs: [{ name: "model", type: "MODEL", link: 1 }], widgets_values: ["off.safetensors", 1] },
+            { id: 4, type: "CLIPTextEncode", mode: 2, title: "Old prompt", widgets_values: ["muted"] },
+            { id: 5, type: "PrimitiveNode", widgets_values: [1234, "fixed"] },
+            { id: 6, type: "Note", widgets_values: ["remember the vae"] },
+        ],
+        links: [[1, 1, 0, 2, 0, "MODEL"], [2, 2, 0, 3, 0, "MODEL"]],
+    };
+    assert.deepEqual(listComfyNodes({ workflow_json: wf }), [
+        { id: "1", classType: "CheckpointLoaderSimple", inputs: { ckpt_name: "base.safetensors" } },
+        { id: "2", classType: "LoraLoaderModelOnly", mode: "bypassed", inputs: { lora_name: "off.safetensors", strength_model: 1, model: ["1", 0] } },
+        { id: "3", classType: "Reroute", mode: "virtual", inputs: { input: ["2", 0] } },
+        { id: "4", classType: "CLIPTextEncode", title: "Old prompt", mode: "muted", inputs: { text: "muted" } },
+        { id: "5", classType: "PrimitiveNode", mode: "virtual", inputs: { value: 1234 } },
+        { id: "6", classType: "Note", mode: "virtual", inputs: { text: "remember the vae" } },
+    ]);
+});
+
+test("findMissingComfyNodes: groups by pack hint; listComfyNodeTypes counts what was checked", () => {
+    const wf = {
+        nodes: [
+            { id: 1, type: "KSampler", properties: { cnr_id: "comfy-core", ver: "0.3.40" } },
+            { id: 2, type: "Reroute" },
+            { id: 3, type: "FaceDetailer", properties: { cnr_id: "comfyui-impact-pack", ver: "8.8.1" } },
+            { id: 4, type: "MysteryNode" },
+        ],
+        links: [],
+    };
+    const fields = { workflow_json: wf };
+    assert.deepEqual(listComfyNodeTypes(fields), ["FaceDetailer", "KSampler", "MysteryNode"]);
+    assert.deepEqual(findMissingComfyNodes(fields, { KSampler: {} }), [
+        { pack: "comfyui-impact-pack", version: "8.8.1", classTypes: ["FaceDetailer"] },
+        { pack: null, classTypes: ["MysteryNode"] },
+    ]);
+    assert.deepEqual(findMissingComfyNodes(fields, { KSampler: {}, FaceDetailer: {}, MysteryNode: {} }), []);
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractGpsInfo, readExif } from "../exif";
+
+type Entry = { tag: number; type: 1 | 2 | 5; value: number | string | number[][] };
+
+// `Exif\0\0` + TIFF with IFD0 pointing at a GPS IFD holding `gps`
+function exifWithGps(gps: Entry[], littleEndian: boolean): Uint8Array {
+    const out: number[] = [];
+    const u16 = (v: number) => littleEndian ? [v & 0xff, v >> 8] : [v >> 8, v & 0xff];
+    const u32 = (v: number) => littleEndian
+        ? [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, v >>> 24]
+        : [v >>> 24, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+    const gpsIfd = 8 + 2 + 12 + 4;
+    let dataAt = gpsIfd + 2 + gps.length * 12 + 4;
+    const data: number[] = [];
+    const entries: number[] = [];
+    for (const e of gps) {
+        let bytes: number[];
+        let count: number;
+        if (e.type === 2) { bytes = [...new TextEncoder().encode(`${e.value}\0`)]; count = bytes.length; }
+        else if (e.type === 1) { bytes = [e.value as number]; count = 1; }
+        else { bytes = (e.value as number[][]).flatMap(([n, d]) => [...u32(n), ...u32(d)]); count = bytes.length / 8; }
+        entries.push(...u16(e.tag), ...u16(e.type), ...u32(count));
+        if (bytes.length <= 4) {
+            entries.push(...bytes, ...new Array(4 - bytes.length).fill(0));
+        } else {
+            entries.push(...u32(dataAt));
+            data.push(...bytes);
+            dataAt += bytes.length;
+        }
+    }
+    out.push(...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8));
+    out.push(...u16(1), ...u16(0x8825), ...u16(4), ...u32(1), ...u32(gpsIfd), ...u32(0));
+    out.push(...u16(gps.length), ...entries, ...u32(0), ...data);
+    return new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0, ...out]);
+}
+
+const dms = (d: number, m: number, s100: number) => [[d, 1], [m, 1], [s100, 100]];
+
+for (const littleEndian of [true, false]) {
+    test(`GPS south/west and below sea level are negative (${littleEndian ? "II" : "MM"})`, () => {
+        const d = readExif(exifWithGps([
+            { tag: 0x0001, type: 2, value: "S" },
+            { tag: 0x0002, type: 5, value: dms(33, 51, 3600) },
+            { tag: 0x0003, type: 2, value: "W" },
+            { tag: 0x0004, type: 5, value: dms(151, 12, 0) },
+            { tag: 0x0005, type: 1, value: 1 },
+            { tag: 0x0006, type: 5, value: [[125, 10]] },
+        ], littleEndian));
+        assert.ok(d);
+        const g = extractGpsInfo(d);
+        assert.ok(g);
+        assert.ok(Math.abs((g.latitude as number) - -33.86) < 1e-9);
+        assert.ok(Math.abs((g.longitude as number) - -151.2) < 1e-9);
+        assert.equal(g.altitude, -12.5);
+    });
+}
+
+test("GPS north/east stays positive", () => {
+    const d = readExif(exifWithGps([
+        { tag: 0x0001, type: 2, value: "N" },
+        { tag: 0x0002, type: 5, value: dms(35, 30, 0) },
+        { tag: 0x0003, type: 2, value: "E" },
+        { tag: 0x0004, type: 5, value: dms(139, 45, 0) },
+    ], true));
+    const g = d && extractGpsInfo(d);
+    assert.deepEqual(g, { latitude: 35.5, longitude: 139.75 });
+});
+
+test("altitude without coordinates is not location data", () => {
+    const d = readExif(exifWithGps([{ tag: 0x0006, type: 5, value: [[100, 1]] }], true));
+    assert.ok(d);
+    assert.equal(extractGpsInfo(d), null);
+});
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractGeneratorFields } from "../generators";
+
+// Raw chunks plus the `<key>_json` values the parser adds for JSON chunks
+function extract(raw: Record<string, string>) {
+    const parsed: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(raw)) {
+        try { parsed[`${k}_json`] = JSON.parse(v); } catch { /* not JSON */ }
+    }
+    return extractGeneratorFields(raw, parsed);
+}
+
+test("NovelAI: Comment request with V4 character captions", () => {
+    const comment = {
+        prompt: "2girls, park", uc: "lowres", steps: 28, scale: 5, seed: 123, width: 832, height: 1216,
+        sampler: "k_euler_ancestral", noise_schedule: "karras",
+        v4_prompt: {
+            use_coords: true,
+            caption: { base_caption: "2girls, park", char_captions: [{ char_caption: "girl, red hair", centers: [{ x: 0.3, y: 0.5 }] }] },
+        },
+        v4_negative_prompt: { caption: { base_caption: "lowres", char_captions: [{ char_caption: "hat" }] } },
+    };
+    const f = extract({ Software: "NovelAI", Source: "NovelAI Diffusion V4.5 4BDE2A90", Comment: JSON.stringify(comment) });
+    assert.deepEqual(f, {
+        generator: "NovelAI",
+        prompt: "2girls, park",
+        negative_prompt: "lowres",
+        steps: 28, cfg_scale: 5, seed: 123, width: 832, height: 1216, size: "832x1216",
+        sampler: "k_euler_ancestral", scheduler: "karras",
+        model: "NovelAI Diffusion V4.5 4BDE2A90",
+        software: "NovelAI",
+        characters: [{ prompt: "girl, red hair", negativePrompt: "hat", center: "0.3,0.5" }],
+    });
+});
+
+test("NovelAI: a Comment without a prompt is not claimed", () => {
+    assert.equal(extract({ Software: "NovelAI", Comment: JSON.stringify({ steps: 28 }) }), null);
+});
+
+test("InvokeAI: invokeai_metadata with model objects and LoRAs", () => {
+    const md = {
+        app_version: "4.2.0", generation_mode: "sdxl_txt2img",
+        positive_prompt: "a lighthouse", negative_prompt: "fog",
+        steps: 30, scheduler: "dpmpp_2m", cfg_scale: 6.5, seed: 99, width: 1024, height: 768,
+        model: { name: "juggernautXL", hash: "blake3:abc" },
+        loras: [{ model: { name: "detail" }, weight: 0.6 }],
+    };
+    assert.deepEqual(extract({ invokeai_metadata: JSON.stringify(md) }), {
+        generator: "InvokeAI",
+        prompt: "a lighthouse", negative_prompt: "fog",
+        steps: 30, sampler: "dpmpp_2m", cfg_scale: 6.5, seed: 99, width: 1024, height: 768, size: "1024x768",
+        model: "juggernautXL", model_hash: "blake3:abc",
+        generation_mode: "sdxl_txt2img",
+        loras: [{ name: "detail", weight: 0.6 }],
+        version: "4.2.0",
+    });
+});
+
+test("InvokeAI: legacy Dream command with bracketed negatives", () => {
+    const f = extract({ Dream: '"a cat [blurry] on a mat" -s 50 -S 42 -W 512 -H 512 -C 7.5 -A k_lms' });
+    assert.deepEqual(f, {
+        generator: "InvokeAI",
+        prompt: "a cat on a mat", negative_prompt: "blurry",
+        steps: 50, seed: 42, width: 512, height: 512, size: "512x512", cfg_scale: 7.5, sampler: "k_lms",
+    });
+});
+
+test("Fooocus: JSON parameters with resolution tuple and LoRA triples", () => {
+    const md = {
+        prompt: "castle", negative_prompt: "", steps: 30, sampler: "dpmpp_2m_sde_gpu", scheduler: "karras",
+        guidance_scale: 4, seed: "12345", resolution: "(1152, 896)", base_model: "juggernautXL_v8",
+        refiner_model: "None", vae: "Default (model)", loras: [["sd_xl_offset.safetensors", 0.1, "abc"]],
+        metadata_scheme: "fooocus", version: "Fooocus v2.5.0",
+    };
+    assert.deepEqual(extract({ parameters: JSON.stringify(md), fooocus_scheme: "fooocus" }), {
+        generator: "Fooocus",
+        prompt: "castle", steps: 30, sampler: "dpmpp_2m_sde_gpu", scheduler: "karras", cfg_scale: 4, seed: 12345,
+        width: 1152, height: 896, size: "1152x896", model: "juggernautXL_v8",
+        loras: [{ name: "sd_xl_offset.safetensors", weight: 0.1 }],
+        version: "Fooocus v2.5.0",
+    });
+});
+
+test("SwarmUI: sui_image_params with LoRA weights and clip skip", () => {
+    const md = {
+        sui_image_params: {
+            prompt: "forest", negativeprompt: "people", steps: 20, cfgscale: 7, seed: 5, width: 896, height: 1152,
+            model: "sdxl_base", sampler: "euler", scheduler: "normal", clipstopatlayer: -2,
+            loras: ["a", "b"], loraweights: ["0.5", "1"], swarm_version: "0.9.2",
+        },
+    };
+    assert.deepEqual(extract({ parameters: JSON.stringify(md) }), {
+        generator: "SwarmUI",
+        prompt: "forest", negative_prompt: "people", steps: 20, sampler: "euler", scheduler: "normal", cfg_scale: 7,
+        seed: 5, width: 896, height: 1152, size: "896x1152", model: "sdxl_base", clip_skip: 2,
+        loras: [{ name: "a", weight: 0.5 }, { name: "b", weight: 1 }],
+        version: "0.9.2",
+    });
+});
+
+test("plain A1111 text is left to the A1111 parser", () => {
+    assert.equal(extract({ parameters: "a cat\nSteps: 20, Seed: 1" }), null);
+});
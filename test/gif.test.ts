@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readGif } from "../gif";
+import { parseImageMeta } from "../parser";
+import { ascii, concat, u16le, utf8, type Bytes } from "./bytes";
+
+// Data split into sub-blocks of at most `max` bytes, then the terminator
+function subBlocks(data: Bytes, max = 255): number[] {
+    const out: number[] = [];
+    const a = Array.from(data);
+    for (let i = 0; i < a.length; i += max) {
+        const part = a.slice(i, i + max);
+        out.push(part.length, ...part);
+    }
+    return [...out, 0];
+}
+
+const frame = (delayCs: number) => concat(
+    [0x21, 0xf9], subBlocks([0x04, ...u16le(delayCs), 0x00]),
+    [0x2c], u16le(0), u16le(0), u16le(2), u16le(2), [0x00],
+    [0x02], subBlocks([0x44, 0x01]));
+
+function gif(extensions: Bytes[]): Uint8Array {
+    const trailer = [0x01, ...Array.from({ length: 256 }, (_, i) => 0xff - i)];
+    return concat(
+        ascii("GIF89a"), u16le(320), u16le(240), [0x80, 0x00, 0x00], [0, 0, 0, 255, 255, 255],
+        [0x21, 0xff, 11], ascii("NETSCAPE2.0"), subBlocks([0x01, ...u16le(0)]),
+        ...extensions,
+        frame(5), frame(10),
+        [0x21, 0xff, 11], ascii("XMP DataXMP"), utf8("<x:xmpmeta/>"), trailer, [0x00],
+        [0x3b]);
+}
+
+test("GIF: screen size, comments split over sub-blocks, XMP and animation facts", () => {
+    const comment = "a".repeat(300);
+    const info = readGif(gif([[0x21, 0xfe], subBlocks(ascii(comment), 200)]));
+    assert.ok(info);
+    assert.equal(info.version, "89a");
+    assert.deepEqual([info.width, info.height], [320, 240]);
+    assert.deepEqual(info.comments.map((c) => new TextDecoder().decode(c)), [comment]);
+    assert.equal(new TextDecoder().decode(info.xmp ?? new Uint8Array()), "<x:xmpmeta/>");
+    assert.equal(info.frames, 2);
+    assert.equal(info.loopCount, 0);
+    assert.equal(info.durationMs, 150);
+});
+
+test("GIF: UTF-8 comments are decoded as UTF-8", async () => {
+    const file = gif([[0x21, 0xfe], subBlocks(utf8("café, 日本語"))]);
+    const meta = await parseImageMeta(file.buffer as ArrayBuffer, "gif");
+    assert.equal(meta.format, "gif");
+    assert.equal(meta.raw["Comment"], "café, 日本語");
+    assert.equal(meta.raw["XMP"], "<x:xmpmeta/>");
+    assert.deepEqual([meta.file?.width, meta.file?.height, meta.file?.frames], [320, 240, 2]);
+});
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TFile } from "./obsidian";
+import { MetadataIndex } from "../indexer";
+import type { ImageMeta } from "../parser";
+
+const named = (name: string) => Object.assign(new Error(name), { name });
+
+// A vault of the given files and a cache whose results come from `results` (one per call, per path)
+function setup(files: TFile[], results: Record<string, (ImageMeta | Error)[]>) {
+    const calls: Record<string, number> = {};
+    const options = { key: "{}" };
+    const app: any = {
+        vault: {
+            getFiles: () => files,
+            getAbstractFileByPath: (p: string) => files.find((f) => f.path === p) ?? null,
+            adapter: { exists: async () => false, read: async () => "", write: async () => { } },
+        },
+    };
+    const cache: any = {
+        optionsKey: () => options.key,
+        get: async (file: TFile) => {
+            const i = calls[file.path] = (calls[file.path] ?? 0) + 1;
+            const r = results[file.path][Math.min(i, results[file.path].length) - 1];
+            if (r instanceof Error) throw r;
+            return r;
+        },
+    };
+    const index = new MetadataIndex(app, "index.json", cache, () => true);
+    return { index, calls, options };
+}
+
+// The queue yields to the event loop between files
+async function drain() {
+    for (let i = 0; i < 20; i++) await new Promise((r) => setTimeout(r, 0));
+}
+
+const meta = (prompt: string, partial = false): ImageMeta => ({ format: "png", fields: { prompt }, raw: {}, ...(partial ? { partial } : {}) });
+
+test("partial results are not stored and are parsed again on the next scan", async () => {
+    const file = new TFile("a.png", 100);
+    const { index, calls } = setup([file], { "a.png": [meta("fast", true), meta("full")] });
+    index.scanVault();
+    await drain();
+    assert.equal(index.size, 0);
+    index.scanVault();
+    await drain();
+    assert.equal(calls["a.png"], 2);
+    assert.deepEqual(index.search({}).map((e) => e.fields.prompt), ["full"]);
+});
+
+test("timeouts and read errors are retried, parser failures are kept until the file changes", async () => {
+    const files = [new TFile("slow.png", 100), new TFile("io.png", 100), new TFile("bad.png", 100)];
+    const { index, calls } = setup(files, {
+        "slow.png": [named("ParseTimeout"), meta("slow")],
+        "io.png": [new Error("EBUSY"), meta("io")],
+        "bad.png": [named("ParseFailed")],
+    });
+    index.scanVault();
+    await drain();
+    assert.deepEqual(index.search({}).map((e) => e.path), ["bad.png"]);
+    index.scanVault();
+    await drain();
+    assert.deepEqual(calls, { "slow.png": 2, "io.png": 2, "bad.png": 1 });
+    assert.deepEqual(index.search({ text: "slow" }).map((e) => e.path), ["slow.png"]);
+    assert.deepEqual(index.search({ text: "io" }).map((e) => e.path), ["io.png"]);
+});
+
+test("entries are parsed again when the parse options change", async () => {
+    const file = new TFile("a.png", 100);
+    const { index, calls, options } = setup([file], { "a.png": [meta("text"), meta("stealth")] });
+    index.scanVault();
+    await drain();
+    index.scanVault();
+    await drain();
+    assert.equal(calls["a.png"], 1);
+    options.key = JSON.stringify({ stealth: true });
+    index.scanVault();
+    await drain();
+    assert.equal(calls["a.png"], 2);
+    assert.deepEqual(index.search({}).map((e) => e.fields.prompt), ["stealth"]);
+});
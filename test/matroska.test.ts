@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isMatroska, readMatroskaTags } from "../matroska";
+import { concat, u32, utf8, type Bytes } from "./bytes";
+
+// EBML element with a 1- or 2-byte size
+function el(id: number, ...parts: Bytes[]): Uint8Array {
+    const body = concat(...parts);
+    const idBytes = id > 0xffffff ? u32(id) : id > 0xffff ? u32(id).slice(1) : id > 0xff ? u32(id).slice(2) : [id];
+    const size = body.length < 0x7f ? [0x80 | body.length] : [0x40 | (body.length >> 8), body.length & 0xff];
+    return concat(idBytes, size, body);
+}
+
+const simpleTag = (name: string, value: string) => el(0x67c8, el(0x45a3, utf8(name)), el(0x4487, utf8(value)));
+
+test("Matroska tags: SimpleTags after a cluster in an unknown-size segment", () => {
+    const prompt = '{"3":{"class_type":"KSampler","inputs":{"seed":1}}}';
+    const header = el(0x1a45dfa3, el(0x4282, utf8("webm")));
+    const cluster = el(0x1f43b675, new Uint8Array(300));
+    const tags = el(0x1254c367, el(0x7373, simpleTag("PROMPT", prompt), simpleTag("ENCODER", "Lavf60"), simpleTag("PROMPT", "later")));
+    // Segment with the "unknown" size marker, as written by live muxers
+    const segment = concat(u32(0x18538067), [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], cluster, tags);
+    const file = concat(header, segment);
+    assert.ok(isMatroska(file));
+    assert.deepEqual(readMatroskaTags(file), { PROMPT: prompt, ENCODER: "Lavf60" });
+});
+
+test("Matroska tags: not an EBML file", () => {
+    assert.deepEqual(readMatroskaTags(utf8("RIFF....WEBP")), {});
+});
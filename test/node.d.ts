@@ -0,0 +1,7 @@
+// @types/node is not a dependency; the test runner modules are used untyped
+declare module "node:test";
+declare module "node:assert/strict";
+declare module "node:fs";
+declare module "node:os";
+declare module "node:path";
+declare module "node:module";
@@ -0,0 +1,73 @@
+/**
+ * Runtime stand-ins for the parts of the Obsidian API the tested modules use.
+ * The `obsidian` package ships type definitions only; rollup.test.config.mjs
+ * resolves `obsidian` to this file when bundling the tests.
+ */
+
+export class Events {
+    private handlers: Record<string, ((...args: unknown[]) => unknown)[]> = {};
+
+    on(name: string, cb: (...args: unknown[]) => unknown) {
+        (this.handlers[name] ??= []).push(cb);
+    }
+
+    trigger(name: string, ...args: unknown[]) {
+        for (const cb of this.handlers[name] ?? []) cb(...args);
+    }
+}
+
+export class TAbstractFile {
+    path = "";
+    name = "";
+}
+
+export class TFile extends TAbstractFile {
+    basename = "";
+    extension = "";
+    stat = { ctime: 0, mtime: 0, size: 0 };
+
+    constructor(path: string, size: number, mtime = 1) {
+        super();
+        this.path = path;
+        this.name = path.slice(path.lastIndexOf("/") + 1);
+        const dot = this.name.lastIndexOf(".");
+        this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+        this.extension = dot > 0 ? this.name.slice(dot + 1) : "";
+        this.stat = { ctime: mtime, mtime, size };
+    }
+}
+
+export class FileSystemAdapter {
+    constructor(private basePath: string) { }
+
+    getFullPath(path: string): string {
+        return `${this.basePath}/${path}`;
+    }
+}
+
+// Same contract as Obsidian's debounce; timers do not keep the test process alive
+export function debounce<T extends unknown[]>(cb: (...args: T) => unknown, timeout = 0, resetTimer = false) {
+    let timer: any = null;
+    let args: T | null = null;
+    const run = () => {
+        timer = null;
+        const a = args as T;
+        args = null;
+        cb(...a);
+    };
+    const fn: any = (...a: T) => {
+        args = a;
+        if (timer && !resetTimer) return fn;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(run, timeout);
+        timer.unref?.();
+        return fn;
+    };
+    fn.cancel = () => { if (timer) clearTimeout(timer); timer = null; args = null; return fn; };
+    fn.run = () => { if (timer) { clearTimeout(timer); run(); } };
+    return fn;
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ParserWorker, isParseCancelled, isParseFailure } from "../parseworker";
+
+// Node has no Worker, so every request takes the main-thread fallback
+(globalThis as any).window = globalThis;
+
+const png = () => new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]).buffer;
+
+test("the main-thread fallback resolves through the queue", async () => {
+    const parser = new ParserWorker(1000);
+    const meta = await parser.parse(png(), "png");
+    assert.equal(meta.format, "png");
+});
+
+test("errors thrown by the parser are reported as parse failures", async () => {
+    const parser = new ParserWorker(1000);
+    const buf = png();
+    // A detached buffer makes the parser throw
+    structuredClone(buf, { transfer: [buf] });
+    await assert.rejects(parser.parse(buf, "png"), (e: unknown) => isParseFailure(e));
+});
+
+test("a request aborted while it runs is rejected as cancelled", async () => {
+    const parser = new ParserWorker(1000);
+    const abort = new AbortController();
+    const p = parser.parse(png(), "png", {}, { signal: abort.signal });
+    abort.abort();
+    await assert.rejects(p, (e: unknown) => isParseCancelled(e));
+    // The queue moves on
+    assert.equal((await parser.parse(png(), "png")).format, "png");
+});
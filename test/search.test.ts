@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compileSearchPattern, findMatchRanges } from "../search";
+
+const plain = { regex: false, caseSensitive: false, wholeWord: false };
+const ranges = (query: string, text: string, flags = {}) => findMatchRanges(compileSearchPattern(query, { ...plain, ...flags }), text);
+
+test("plain queries are case-insensitive and escaped", () => {
+    assert.deepEqual(ranges("CFG", "cfg scale, CFG 7"), [{ start: 0, end: 3 }, { start: 11, end: 14 }]);
+    assert.deepEqual(ranges("a.b", "axb a.b"), [{ start: 4, end: 7 }]);
+    assert.deepEqual(ranges("CFG", "cfg CFG", { caseSensitive: true }), [{ start: 4, end: 7 }]);
+    assert.equal(compileSearchPattern("   ", plain), null);
+});
+
+test("whole-word matches do not touch word characters", () => {
+    assert.deepEqual(ranges("cat", "cat, catgirl, bobcat cat", { wholeWord: true }), [{ start: 0, end: 3 }, { start: 21, end: 24 }]);
+    // Also for queries that start or end with punctuation
+    assert.deepEqual(ranges("(1.2)", "x(1.2) (1.2)", { wholeWord: true }), [{ start: 7, end: 12 }]);
+    assert.deepEqual(ranges("seed|steps", "seed, seeds, steps", { regex: true, wholeWord: true }), [{ start: 0, end: 4 }, { start: 13, end: 18 }]);
+});
+
+test("zero-length regex matches are skipped", () => {
+    assert.deepEqual(ranges("^", "abc", { regex: true }), []);
+    assert.deepEqual(ranges("\\b", "a b", { regex: true }), []);
+    assert.deepEqual(ranges("a*", "baab", { regex: true }), [{ start: 1, end: 3 }]);
+});
+
+test("an invalid regex throws", () => {
+    assert.throws(() => compileSearchPattern("(", { ...plain, regex: true }));
+});
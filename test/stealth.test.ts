@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { gzipSync, zlibSync } from "fflate";
+import { readStealthPngInfo } from "../stealth";
+import { PNG_SIGNATURE, ascii, concat, pngChunk, u32, utf8 } from "./bytes";
+
+// 8-bit RGBA PNG whose alpha LSBs carry `bits` column by column (x outer, y inner)
+function stealthPng(width: number, height: number, bits: number[]): Uint8Array {
+    const rows: number[] = [];
+    for (let y = 0; y < height; y++) {
+        rows.push(0); // filter: none
+        for (let x = 0; x < width; x++) {
+            const bit = bits[x * height + y] ?? 0;
+            rows.push(200, 100, 50, 0xfe | bit);
+        }
+    }
+    return concat(PNG_SIGNATURE,
+        pngChunk("IHDR", u32(width), u32(height), [8, 6, 0, 0, 0]),
+        pngChunk("IDAT", zlibSync(new Uint8Array(rows))),
+        pngChunk("IEND"));
+}
+
+function toBits(bytes: ArrayLike<number>): number[] {
+    const out: number[] = [];
+    for (let i = 0; i < bytes.length; i++) for (let k = 7; k >= 0; k--) out.push((bytes[i] >> k) & 1);
+    return out;
+}
+
+function payload(signature: string, data: Uint8Array): number[] {
+    return [...toBits(ascii(signature)), ...toBits(u32(data.length * 8)), ...toBits(data)];
+}
+
+test("stealth: plain alpha payload", () => {
+    const text = "a cat\nSteps: 20, Seed: 1";
+    const info = readStealthPngInfo(stealthPng(16, 40, payload("stealth_pnginfo", utf8(text))));
+    assert.deepEqual(info, { mode: "alpha", compressed: false, text });
+});
+
+test("stealth: gzip alpha payload", () => {
+    const text = JSON.stringify({ prompt: "1girl", steps: 28 });
+    const info = readStealthPngInfo(stealthPng(32, 64, payload("stealth_pngcomp", gzipSync(utf8(text)))));
+    assert.deepEqual(info, { mode: "alpha", compressed: true, text });
+});
+
+test("stealth: no signature", () => {
+    assert.equal(readStealthPngInfo(stealthPng(16, 16, [])), null);
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseImageMeta } from "../parser";
+import { ascii, concat, u16le, u24le, u32le, type Bytes } from "./bytes";
+
+function chunk(tag: string, ...parts: Bytes[]): Uint8Array {
+    const data = concat(...parts);
+    return concat(ascii(tag), u32le(data.length), data, data.length & 1 ? [0] : []);
+}
+
+function webp(...chunks: Uint8Array[]): ArrayBuffer {
+    const body = concat(ascii("WEBP"), ...chunks);
+    return concat(ascii("RIFF"), u32le(body.length), body).buffer as ArrayBuffer;
+}
+
+// VP8 key frame: frame tag, start code, 14-bit width/height
+const vp8 = (w: number, h: number) => chunk("VP8 ", [0x10, 0x02, 0x00, 0x9d, 0x01, 0x2a], u16le(w), u16le(h));
+// VP8L: signature, then width-1 / height-1 (14 bits each) and the alpha bit, LSB first
+const vp8l = (w: number, h: number, alpha: boolean) =>
+    chunk("VP8L", [0x2f], u32le(((w - 1) | ((h - 1) << 14) | ((alpha ? 1 : 0) << 28)) >>> 0));
+
+test("WebP VP8X: canvas size and flags win over the bitstream size", async () => {
+    const meta = await parseImageMeta(webp(
+        chunk("VP8X", [0x10 | 0x08, 0, 0, 0], u24le(4000 - 1), u24le(3000 - 1)),
+        chunk("ALPH", [0, 0]),
+        vp8(640, 480)), "webp", { recover: false });
+    assert.equal(meta.format, "webp");
+    assert.deepEqual([meta.file?.width, meta.file?.height], [4000, 3000]);
+    assert.deepEqual(meta.file?.features, ["Alpha", "EXIF"]);
+    assert.equal(meta.file?.alpha, true);
+    assert.equal(meta.file?.codec, "VP8 (lossy)");
+});
+
+test("WebP VP8L: 14-bit dimensions and the alpha bit", async () => {
+    const meta = await parseImageMeta(webp(vp8l(16383, 567, true)), "webp", { recover: false });
+    assert.deepEqual([meta.file?.width, meta.file?.height], [16383, 567]);
+    assert.equal(meta.file?.alpha, true);
+    assert.equal(meta.file?.codec, "VP8L (lossless)");
+});
+
+test("WebP VP8: dimensions without the scale bits", async () => {
+    const meta = await parseImageMeta(webp(vp8(800 | 0x4000, 600)), "webp", { recover: false });
+    assert.deepEqual([meta.file?.width, meta.file?.height], [800, 600]);
+    assert.equal(meta.file?.alpha, false);
+});
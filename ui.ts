@@ -1,5 +1,13 @@
 import { App, Modal, TFile, Setting, Notice } from "obsidian";
 import type { ImageMeta } from "./parser";
+import { ensureFolder, exportTargetPath } from "./settings";
+import type { ImageMetaSettings } from "./settings";
+import { findMissingComfyNodes, listComfyNodeTypes, listComfyNodes } from "./comfy";
+import { renderNodeInspector } from "./inspector";
+import { renderJsonSection } from "./jsontree";
+import { GENERATOR_SECTION_FIELDS, renderPropertyGrid } from "./propgrid";
+import { MetadataSearch, createSearchTextarea } from "./search";
+import { renderKeyValueSection, renderGpsSection, renderHeadOnlyNotice, renderLocationBadge, cameraRows, fileInfoRows, characterRows, missingNodeRows, renderRawChunksSection, stageRows } from "./sections";
 
 async function copyToClipboard(text: string) {
     try {
@@ -12,14 +20,34 @@ async function copyToClipboard(text: string) {
 }
 
 export class ImageMetaModal extends Modal {
-    constructor(app: App, private file: TFile, private meta: ImageMeta) { super(app); }
+    private readonly search = new MetadataSearch();
+
+    constructor(
+        app: App,
+        private file: TFile,
+        private meta: ImageMeta,
+        private settings: ImageMetaSettings,
+        private objectInfo: Record<string, unknown> | null = null
+    ) { super(app); }
 
     onOpen() {
         const { contentEl } = this;
         this.titleEl.setText(`Image Metadata: ${this.file.name}`);
+        if (this.meta.gps) renderLocationBadge(this.titleEl);
+        // Search bar on top; covers prompts, parameters and the JSON sections
+        this.search.attach(contentEl, contentEl);
+        // Mod+F focuses it while the modal is open
+        this.scope.register(["Mod"], "f", () => { this.search.open(); return false; });
+        if (this.meta.partial) contentEl.createDiv({ cls: "imgmeta-partial", text: "Parsing timed out; showing partial results" });
+        if (this.meta.headOnly) renderHeadOnlyNotice(contentEl);
+        this.renderSections(contentEl);
+        this.search.refresh();
+    }
 
+    private renderSections(contentEl: HTMLElement) {
         const fields: any = this.meta.fields as any;
-        const isComfy = fields && (fields["generator"] === "ComfyUI" || fields["prompt_json"] || fields["workflow_json"]);
+        // ComfyUI and the JSON-schema generators (NovelAI, InvokeAI, ...) get prompt sections; A1111 sets no generator
+        const isComfy = fields && (typeof fields["generator"] === "string" || fields["prompt_json"] || fields["workflow_json"]);
 
         if (isComfy) {
             // Prompts (if available)
@@ -29,32 +57,27 @@ export class ImageMetaModal extends Modal {
                 const headerP = contentEl.createDiv({ cls: "imgmeta-header" });
                 headerP.createEl("h4", { text: "Positive Prompt" });
                 const copyP = headerP.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-                const taP = contentEl.createEl("textarea", { cls: "imgmeta-textarea imgmeta-textarea--prompt" });
-                taP.setAttr("readonly", "true"); taP.setAttr("spellcheck", "false"); taP.setAttr("wrap", "soft"); taP.value = pos;
+                const taP = createSearchTextarea(contentEl, pos, "imgmeta-textarea--prompt");
                 copyP.onclick = () => copyToClipboard(taP.value ?? "");
             }
             if (neg) {
                 const headerN = contentEl.createDiv({ cls: "imgmeta-header" });
                 headerN.createEl("h4", { text: "Negative Prompt" });
                 const copyN = headerN.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-                const taN = contentEl.createEl("textarea", { cls: "imgmeta-textarea imgmeta-textarea--prompt" });
-                taN.setAttr("readonly", "true"); taN.setAttr("spellcheck", "false"); taN.setAttr("wrap", "soft"); taN.value = neg;
+                const taN = createSearchTextarea(contentEl, neg, "imgmeta-textarea--prompt");
                 copyN.onclick = () => copyToClipboard(taN.value ?? "");
             }
 
+            // Per-row Copy, long values truncated, LoRAs/ControlNets as nested rows
+            renderPropertyGrid(contentEl, fields, copyToClipboard, "Settings", true, GENERATOR_SECTION_FIELDS);
+            if (Array.isArray(fields["sampler_stages"])) renderKeyValueSection(contentEl, "Sampler stages", stageRows(fields["sampler_stages"]), copyToClipboard, false);
+            if (Array.isArray(fields["characters"])) renderKeyValueSection(contentEl, "Characters", characterRows(fields["characters"]), copyToClipboard);
+            if (this.objectInfo) renderKeyValueSection(contentEl, "Missing nodes", missingNodeRows(findMissingComfyNodes(fields, this.objectInfo), listComfyNodeTypes(fields).length), copyToClipboard);
+            if (this.settings.sections.nodes) renderNodeInspector(contentEl, listComfyNodes(fields), copyToClipboard);
+
             // Prompt JSON
             if (fields["prompt_json"]) {
-                const detailsP = contentEl.createEl("details", { cls: "imgmeta-details" });
-                const sumP = detailsP.createEl("summary");
-                sumP.setText("Prompt JSON");
-                // Copy in summary so it works when collapsed
-                const copyPS = sumP.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-                const boxPJ = detailsP.createDiv({ cls: "imgmeta-prebox" });
-                const taPJ = boxPJ.createEl("textarea", { cls: "imgmeta-textarea" });
-                taPJ.setAttr("readonly", "true"); taPJ.setAttr("spellcheck", "false"); taPJ.setAttr("wrap", "soft");
-                taPJ.value = JSON.stringify(fields["prompt_json"], null, 2);
-                copyPS.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyToClipboard(taPJ.value ?? ""); };
-                // Export button
+                const detailsP = renderJsonSection(contentEl, "Prompt JSON", fields["prompt_json"], copyToClipboard);
                 new Setting(detailsP).addButton((b) => b.setButtonText("Export prompt.json").onClick(async () => {
                     await this.exportJson("prompt", JSON.stringify(fields["prompt_json"], null, 2));
                 }));
@@ -62,82 +85,53 @@ export class ImageMetaModal extends Modal {
 
             // Workflow JSON
             if (fields["workflow_json"]) {
-                const detailsW = contentEl.createEl("details", { cls: "imgmeta-details" });
-                const sumW = detailsW.createEl("summary");
-                sumW.setText("Workflow JSON");
-                const copyWS = sumW.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-                const boxWJ = detailsW.createDiv({ cls: "imgmeta-prebox" });
-                const taWJ = boxWJ.createEl("textarea", { cls: "imgmeta-textarea" });
-                taWJ.setAttr("readonly", "true"); taWJ.setAttr("spellcheck", "false"); taWJ.setAttr("wrap", "soft");
-                taWJ.value = JSON.stringify(fields["workflow_json"], null, 2);
-                copyWS.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyToClipboard(taWJ.value ?? ""); };
+                const detailsW = renderJsonSection(contentEl, "Workflow JSON", fields["workflow_json"], copyToClipboard);
                 new Setting(detailsW).addButton((b) => b.setButtonText("Export workflow.json").onClick(async () => {
                     await this.exportJson("workflow", JSON.stringify(fields["workflow_json"], null, 2));
                 }));
             }
 
+            this.renderFileSections(contentEl);
+
             // Raw chunks
-            const detailsRaw = contentEl.createEl("details", { cls: "imgmeta-details" });
-            const sumR = detailsRaw.createEl("summary");
-            sumR.setText("Raw chunks (tEXt/iTXt/zTXt)");
-            const rawBox = detailsRaw.createDiv({ cls: "imgmeta-prebox" });
-            const rawTa = rawBox.createEl("textarea", { cls: "imgmeta-textarea" });
-            rawTa.setAttr("readonly", "true"); rawTa.setAttr("spellcheck", "false"); rawTa.setAttr("wrap", "soft");
-            rawTa.value = JSON.stringify(this.meta.raw, null, 2);
-            const rawCopyS = sumR.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-            rawCopyS.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyToClipboard(rawTa.value ?? ""); };
+            renderRawChunksSection(contentEl, this.meta.raw, copyToClipboard);
             return;
         }
 
-        // Default (non-Comfy or no structured data): show parameters if available, else fields JSON
+        // Default (non-Comfy or no structured data): parameters if available, then the fields grid
         const isA1111 = (typeof (this.meta.fields as any)["parameters_raw"] === "string") || (this.meta.raw && typeof this.meta.raw["parameters"] === "string");
-        let btn: HTMLButtonElement;
-        let ta: HTMLTextAreaElement;
         if (isA1111) {
             const header = contentEl.createDiv({ cls: "imgmeta-header" });
             header.createEl("h4", { text: "Parameters" });
-            btn = header.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-            ta = contentEl.createEl("textarea", { cls: "imgmeta-textarea" });
-        } else {
-            const ctr = contentEl.createDiv({ cls: "imgmeta-controls" });
-            btn = ctr.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-            ta = contentEl.createEl("textarea", { cls: "imgmeta-textarea" });
+            const btn = header.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
+            const a1111 = (typeof (this.meta.fields as any)["parameters_raw"] === "string")
+                ? String((this.meta.fields as any)["parameters_raw"]) : null;
+            const ta = createSearchTextarea(contentEl, a1111 ?? this.meta.raw["parameters"] ?? "");
+            btn.onclick = () => copyToClipboard(ta.value ?? "");
         }
-        ta.setAttr("readonly", "true");
-        ta.setAttr("spellcheck", "false");
-        ta.setAttr("wrap", "soft");
-        const a1111 = (typeof (this.meta.fields as any)["parameters_raw"] === "string")
-            ? String((this.meta.fields as any)["parameters_raw"]) : null;
-        const fallback = JSON.stringify(this.meta.fields, null, 2);
-        ta.value = a1111 ?? this.meta.raw["parameters"] ?? fallback;
-        btn.onclick = () => copyToClipboard(ta.value ?? "");
+        // One row per normalized field, each with its own Copy
+        const grid = renderPropertyGrid(contentEl, this.meta.fields as Record<string, unknown>, copyToClipboard);
+        if (!grid && !isA1111) contentEl.createDiv({ cls: "imgmeta-empty", text: "No generation metadata" });
 
         // Removed redundant Copy JSON/Copy raw buttons; per-section Copy covers use-cases.
 
-        const details = contentEl.createEl("details", { cls: "imgmeta-details" });
-        const sumD = details.createEl("summary");
-        sumD.setText("Raw chunks (tEXt/iTXt/zTXt)");
-        const pre2box = details.createDiv({ cls: "imgmeta-prebox" });
-        const ta2 = pre2box.createEl("textarea", { cls: "imgmeta-textarea" });
-        ta2.setAttr("readonly", "true");
-        ta2.setAttr("spellcheck", "false");
-        ta2.setAttr("wrap", "soft");
-        ta2.value = JSON.stringify(this.meta.raw, null, 2);
-        const btn2 = sumD.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-        btn2.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyToClipboard(ta2.value ?? ""); };
+        this.renderFileSections(contentEl);
+
+        renderRawChunksSection(contentEl, this.meta.raw, copyToClipboard);
+    }
+
+    // Sections derived from the file itself rather than generator metadata
+    private renderFileSections(contentEl: HTMLElement) {
+        const show = this.settings.sections;
+        if (this.meta.file && show.file) renderKeyValueSection(contentEl, "File", fileInfoRows(this.meta.file), copyToClipboard, false);
+        if (this.meta.camera && show.camera) renderKeyValueSection(contentEl, "Camera (EXIF)", cameraRows(this.meta.camera), copyToClipboard);
+        if (this.meta.gps && show.location) renderGpsSection(contentEl, this.meta.gps, copyToClipboard);
     }
 
     private async exportJson(kind: "prompt" | "workflow", content: string) {
         try {
-            const base = this.file.basename;
-            const folder = this.file.parent?.path ?? "";
-            const suffix = kind === "prompt" ? ".prompt.json" : ".workflow.json";
-            let target = (folder ? folder + "/" : "") + base + suffix;
-            let i = 1;
-            while (this.app.vault.getAbstractFileByPath(target)) {
-                target = (folder ? folder + "/" : "") + base + `.${kind}.${i}.json`;
-                i++;
-            }
+            const target = exportTargetPath(this.app, this.settings, this.file, kind);
+            await ensureFolder(this.app, target);
             await this.app.vault.create(target, content);
             new Notice(`Exported: ${target}`);
         } catch (e) {
@@ -1,25 +1,32 @@
-import { ItemView, WorkspaceLeaf, TFile, Notice } from "obsidian";
-import { parseImageMeta } from "./parser";
+import { ItemView, WorkspaceLeaf, TFile, Notice, debounce } from "obsidian";
+import type ImageMetadataViewerPlugin from "./main";
+import { ensureFolder, exportTargetPath } from "./settings";
+import { isParseCancelled } from "./parseworker";
+import { buildGraphLayout, findMissingComfyNodes, listComfyNodeTypes, listComfyNodes } from "./comfy";
+import { renderComfyGraph } from "./graph";
+import { renderNodeInspector } from "./inspector";
+import { renderJsonSection } from "./jsontree";
+import { GENERATOR_SECTION_FIELDS, renderPropertyGrid } from "./propgrid";
+import { MetadataSearch, createSearchTextarea } from "./search";
+import { renderKeyValueSection, renderGpsSection, renderHeadOnlyNotice, renderLocationBadge, cameraRows, fileInfoRows, characterRows, missingNodeRows, renderRawChunksSection, stageRows } from "./sections";
 
 export const VIEW_TYPE_IMGMETA = "imgmeta-view";
 
-export class ImageMetaView extends ItemView {
-  private searchBarEl: HTMLDivElement | null = null;
-  private searchInputEl: HTMLInputElement | null = null;
-  private searchCountEl: HTMLSpanElement | null = null;
-  private searchPrevEl: HTMLButtonElement | null = null;
-  private searchNextEl: HTMLButtonElement | null = null;
-  private searchCaseEl: HTMLButtonElement | null = null;
-  private searchQuery: string = "";
-  private searchCaseSensitive: boolean = false;
-  private searchEnabled: boolean = false;
-  private matches: { el: HTMLTextAreaElement; start: number; end: number }[] = [];
-  private matchIndex: number = -1;
-  private bodyEl: HTMLElement | null = null;
-  private highlightedEl: HTMLTextAreaElement | null = null;
-  private overlayMap: WeakMap<HTMLTextAreaElement, HTMLDivElement> = new WeakMap();
+// Arrowing through a folder fires file-open per image; render only once it settles
+const RENDER_DEBOUNCE_MS = 120;
 
-  constructor(leaf: WorkspaceLeaf, private appRef: any) { super(leaf); }
+export class ImageMetaView extends ItemView {
+  // Query and case toggle persist across files
+  private readonly search = new MetadataSearch();
+  // Parse request of the file being rendered; aborted when another file opens
+  private parseAbort: AbortController | null = null;
+  // Incremented per render; an async render whose token is no longer current is discarded
+  private renderToken = 0;
+  // File shown (or being loaded); re-rendered when settings change
+  private currentFile: TFile | null = null;
+  private readonly renderDebounced = debounce((file: TFile | null) => { void this.renderForFile(file); }, RENDER_DEBOUNCE_MS, true);
+
+  constructor(leaf: WorkspaceLeaf, private plugin: ImageMetadataViewerPlugin) { super(leaf); }
   getViewType() { return VIEW_TYPE_IMGMETA; }
   getDisplayText() { return "Image Metadata"; }
   getIcon() { return "info"; }
@@ -31,14 +38,29 @@ export class ImageMetaView extends ItemView {
   async onClose() {
   }
 
+  /** Debounced render for bursts of file-open events; the last file wins. */
+  requestRender(file: TFile | null) {
+    this.renderDebounced(file);
+  }
+
+  /** Render the current file again, e.g. after a settings change. */
+  refresh() {
+    void this.renderForFile(this.currentFile);
+  }
+
   async renderForFile(file: TFile | null) {
+    this.renderDebounced.cancel();
+    const token = ++this.renderToken;
+    this.parseAbort?.abort();
+    this.parseAbort = null;
+    this.currentFile = file;
+    const settings = this.plugin.settings;
     const container = this.contentEl;
     container.empty();
     container.addClass("imgmeta-side");
 
     // Body container
     const body = container.createDiv({ cls: "imgmeta-body" });
-    this.bodyEl = body;
     const copyWithNotice = async (text: string) => {
       try {
         await navigator.clipboard.writeText(text);
@@ -53,156 +75,136 @@ export class ImageMetaView extends ItemView {
       const title = body.createEl("div", { cls: "imgmeta-title" });
       title.setText("Image Metadata");
       // Search bar under title
-      this.buildSearchBar(body);
+      this.search.attach(body, body);
       body.createEl("div", { text: "No active file" });
-      this.setSearchEnabled(false);
-      this.recomputeMatches();
+      this.search.refresh();
       return;
     }
-    const ext = file.extension.toLowerCase();
-    if (!["png","jpg","jpeg","webp"].includes(ext)) {
+    if (!this.plugin.isSupported(file)) {
       const title = body.createEl("div", { cls: "imgmeta-title" });
       title.setText(file.name);
       // Search bar under title
-      this.buildSearchBar(body);
-      body.createEl("div", { text: `Not an image file: ${file.name}` });
-      this.setSearchEnabled(false);
-      this.recomputeMatches();
+      this.search.attach(body, body);
+      body.createEl("div", { text: `Not a supported file: ${file.name}` });
+      this.search.refresh();
       return;
     }
 
+    const loading = body.createDiv({ cls: "imgmeta-loading", text: `Loading ${file.name}…` });
     try {
-      const buf = await this.app.vault.adapter.readBinary(file.path);
-      const meta = await parseImageMeta(buf, ext);
+      const abort = new AbortController();
+      this.parseAbort = abort;
+      const meta = await this.plugin.cache.get(file, { signal: abort.signal, priority: "high" });
+      if (this.parseAbort === abort) this.parseAbort = null;
+      const objectInfo = await this.plugin.loadObjectInfo();
+      // A newer render started while this one was waiting; it owns the container now
+      if (token !== this.renderToken) return;
+      loading.remove();
 
       const title = body.createEl("div", { cls: "imgmeta-title" });
       title.setText(file.name);
-      // Search bar under title
-      this.buildSearchBar(body);
+      if (meta.gps) renderLocationBadge(title);
+      // Search bar under title; covers prompts, parameters and the JSON sections
+      this.search.attach(body, body);
+      if (meta.partial) body.createDiv({ cls: "imgmeta-partial", text: "Parsing timed out; showing partial results" });
+      if (meta.headOnly) renderHeadOnlyNotice(body);
 
       const fields: any = meta.fields as any;
-      const isComfy = fields && (fields["generator"] === "ComfyUI" || fields["prompt_json"] || fields["workflow_json"]);
+      // ComfyUI and the JSON-schema generators (NovelAI, InvokeAI, ...) get prompt sections; A1111 sets no generator
+      const isComfy = fields && (typeof fields["generator"] === "string" || fields["prompt_json"] || fields["workflow_json"]);
 
       if (isComfy) {
-        this.setSearchEnabled(false);
         const pos = typeof fields["prompt"] === "string" ? String(fields["prompt"]) : null;
         const neg = typeof fields["negative_prompt"] === "string" ? String(fields["negative_prompt"]) : null;
         if (pos) {
           const headerP = body.createDiv({ cls: "imgmeta-header" });
           headerP.createEl("h4", { text: "Positive Prompt" });
           const copyP = headerP.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const taP = body.createEl("textarea", { cls: "imgmeta-textarea imgmeta-textarea--prompt" });
-          taP.setAttr("readonly", "true"); taP.setAttr("spellcheck", "false"); taP.setAttr("wrap", "soft"); taP.value = pos;
+          const taP = createSearchTextarea(body, pos, "imgmeta-textarea--prompt");
           copyP.onclick = () => copyWithNotice(taP.value ?? "");
         }
         if (neg) {
           const headerN = body.createDiv({ cls: "imgmeta-header" });
           headerN.createEl("h4", { text: "Negative Prompt" });
           const copyN = headerN.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const taN = body.createEl("textarea", { cls: "imgmeta-textarea imgmeta-textarea--prompt" });
-          taN.setAttr("readonly", "true"); taN.setAttr("spellcheck", "false"); taN.setAttr("wrap", "soft"); taN.value = neg;
+          const taN = createSearchTextarea(body, neg, "imgmeta-textarea--prompt");
           copyN.onclick = () => copyWithNotice(taN.value ?? "");
         }
 
+        // Per-row Copy, long values truncated, LoRAs/ControlNets as nested rows
+        renderPropertyGrid(body, fields, copyWithNotice, "Settings", true, GENERATOR_SECTION_FIELDS);
+        if (Array.isArray(fields["sampler_stages"])) renderKeyValueSection(body, "Sampler stages", stageRows(fields["sampler_stages"]), copyWithNotice, false);
+        if (Array.isArray(fields["characters"])) renderKeyValueSection(body, "Characters", characterRows(fields["characters"]), copyWithNotice);
+        if (objectInfo) renderKeyValueSection(body, "Missing nodes", missingNodeRows(findMissingComfyNodes(fields, objectInfo), listComfyNodeTypes(fields).length), copyWithNotice);
+
+        // Graph drawn on first expand; large workflows are expensive to lay out
+        const layout = settings.sections.graph ? buildGraphLayout(fields) : null;
+        if (layout && layout.nodes.length) {
+          const detailsG = body.createEl("details", { cls: "imgmeta-details" });
+          detailsG.createEl("summary", { text: "Graph" });
+          let drawn = false;
+          detailsG.addEventListener("toggle", () => {
+            if (!detailsG.open || drawn) return;
+            drawn = true;
+            renderComfyGraph(detailsG, layout, copyWithNotice);
+          });
+        }
+        if (settings.sections.nodes) renderNodeInspector(body, listComfyNodes(fields), copyWithNotice);
+
         if (fields["prompt_json"]) {
-          const detailsP = body.createEl("details", { cls: "imgmeta-details" });
-          const sumP = detailsP.createEl("summary");
-          sumP.setText("Prompt JSON");
-          const copyPS = sumP.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const boxPJ = detailsP.createDiv({ cls: "imgmeta-prebox" });
-          const taPJ = boxPJ.createEl("textarea", { cls: "imgmeta-textarea" });
-          taPJ.setAttr("readonly", "true"); taPJ.setAttr("spellcheck", "false"); taPJ.setAttr("wrap", "soft");
-          taPJ.value = JSON.stringify(fields["prompt_json"], null, 2);
-          copyPS.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyWithNotice(taPJ.value ?? ""); };
+          const detailsP = renderJsonSection(body, "Prompt JSON", fields["prompt_json"], copyWithNotice);
           const exportP = detailsP.createEl("button", { text: "Export prompt.json" });
-          exportP.onclick = async () => { await this.exportJson(file, "prompt", taPJ.value); };
+          exportP.onclick = async () => { await this.exportJson(file, "prompt", JSON.stringify(fields["prompt_json"], null, 2)); };
         }
 
         if (fields["workflow_json"]) {
-          const detailsW = body.createEl("details", { cls: "imgmeta-details" });
-          const sumW = detailsW.createEl("summary");
-          sumW.setText("Workflow JSON");
-          const copyWS = sumW.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const boxWJ = detailsW.createDiv({ cls: "imgmeta-prebox" });
-          const taWJ = boxWJ.createEl("textarea", { cls: "imgmeta-textarea" });
-          taWJ.setAttr("readonly", "true"); taWJ.setAttr("spellcheck", "false"); taWJ.setAttr("wrap", "soft");
-          taWJ.value = JSON.stringify(fields["workflow_json"], null, 2);
-          copyWS.onclick = (ev) => { ev.preventDefault(); ev.stopPropagation(); copyWithNotice(taWJ.value ?? ""); };
+          const detailsW = renderJsonSection(body, "Workflow JSON", fields["workflow_json"], copyWithNotice);
           const exportW = detailsW.createEl("button", { text: "Export workflow.json" });
-          exportW.onclick = async () => { await this.exportJson(file, "workflow", taWJ.value); };
+          exportW.onclick = async () => { await this.exportJson(file, "workflow", JSON.stringify(fields["workflow_json"], null, 2)); };
         }
-
-        // Raw chunks hidden in sidebar view (kept in modal)
       } else {
         const isA1111 = (typeof (meta.fields as any)["parameters_raw"] === "string") || (meta.raw && typeof meta.raw["parameters"] === "string");
-        let btn: HTMLButtonElement;
         if (isA1111) {
-          this.setSearchEnabled(true);
           const header = body.createDiv({ cls: "imgmeta-header" });
           header.createEl("h4", { text: "Parameters" });
-          btn = header.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const wrap = body.createDiv({ cls: "imgmeta-textwrap" });
-          // Overlay for highlight (above textarea, pointer-events: none)
-          const overlay = wrap.createDiv({ cls: "imgmeta-overlay" });
-          const overlayInner = overlay.createDiv({ cls: "imgmeta-overlay-content" });
-          const ta = wrap.createEl("textarea", { cls: "imgmeta-textarea imgmeta-search-target" });
-          ta.setAttr("readonly", "true");
-          ta.setAttr("spellcheck", "false");
-          ta.setAttr("wrap", "soft");
-          const a1111 = (typeof (meta.fields as any)["parameters_raw"] === "string")
-            ? String((meta.fields as any)["parameters_raw"]) : null;
-          const fallback = JSON.stringify(meta.fields, null, 2);
-          const paramsText = a1111 ?? meta.raw["parameters"] ?? fallback;
-          ta.value = paramsText;
-          // Initialize overlay content without highlight
-          overlayInner.textContent = paramsText;
-          // Sync scroll
-          const sync = () => {
-            (overlayInner as HTMLElement).style.transform = `translate(${-ta.scrollLeft}px, ${-ta.scrollTop}px)`;
-          };
-          ta.addEventListener("scroll", sync);
-          // initial
-          sync();
-          this.overlayMap.set(ta, overlayInner as HTMLDivElement);
-          btn.onclick = () => copyWithNotice(ta.value ?? "");
-        } else {
-          this.setSearchEnabled(false);
-          const ctr = body.createDiv({ cls: "imgmeta-controls" });
-          btn = ctr.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
-          const ta = body.createEl("textarea", { cls: "imgmeta-textarea" });
-          ta.setAttr("readonly", "true");
-          ta.setAttr("spellcheck", "false");
-          ta.setAttr("wrap", "soft");
+          const btn = header.createEl("button", { cls: "imgmeta-inline-btn", text: "Copy" });
           const a1111 = (typeof (meta.fields as any)["parameters_raw"] === "string")
             ? String((meta.fields as any)["parameters_raw"]) : null;
           const fallback = JSON.stringify(meta.fields, null, 2);
-          ta.value = a1111 ?? meta.raw["parameters"] ?? fallback;
+          const ta = createSearchTextarea(body, a1111 ?? meta.raw["parameters"] ?? fallback);
           btn.onclick = () => copyWithNotice(ta.value ?? "");
         }
-
-        // Raw chunks hidden in sidebar view (kept in modal)
+        // One row per normalized field, each with its own Copy
+        const grid = renderPropertyGrid(body, meta.fields as Record<string, unknown>, copyWithNotice);
+        if (!grid && !isA1111) body.createDiv({ cls: "imgmeta-empty", text: "No generation metadata" });
       }
+      if (meta.file && settings.sections.file) renderKeyValueSection(body, "File", fileInfoRows(meta.file), copyWithNotice, false);
+      if (meta.camera && settings.sections.camera) renderKeyValueSection(body, "Camera (EXIF)", cameraRows(meta.camera), copyWithNotice);
+      if (meta.gps && settings.sections.location) renderGpsSection(body, meta.gps, copyWithNotice);
+      // Raw chunks are modal-only unless enabled in settings
+      if (settings.sidebarRawChunks) renderRawChunksSection(body, meta.raw, copyWithNotice);
       // Recompute matches after rendering
-      this.recomputeMatches();
+      this.search.refresh();
     } catch (e) {
+      // Superseded by a newer file; that render owns the view now
+      if (isParseCancelled(e) || token !== this.renderToken) return;
       console.error(e);
-      new Notice("Failed to read metadata");
-      this.setSearchEnabled(false);
-      this.recomputeMatches();
+      // Replace the loading line and anything rendered before the failure
+      body.empty();
+      const title = body.createEl("div", { cls: "imgmeta-title" });
+      title.setText(file.name);
+      // Search bar under title
+      this.search.attach(body, body);
+      const reason = (e as any)?.message;
+      body.createEl("div", { cls: "imgmeta-empty", text: reason ? `Failed to read metadata: ${reason}` : "Failed to read metadata" });
+      this.search.refresh();
     }
   }
 
   private async exportJson(file: TFile, kind: "prompt" | "workflow", content: string) {
     try {
-      const base = file.basename;
-      const folder = file.parent?.path ?? "";
-      const suffix = kind === "prompt" ? ".prompt.json" : ".workflow.json";
-      let target = (folder ? folder + "/" : "") + base + suffix;
-      let i = 1;
-      while (this.app.vault.getAbstractFileByPath(target)) {
-        target = (folder ? folder + "/" : "") + base + `.${kind}.${i}.json`;
-        i++;
-      }
+      const target = exportTargetPath(this.app, this.plugin.settings, file, kind);
+      await ensureFolder(this.app, target);
       await this.app.vault.create(target, content);
       new Notice(`Exported: ${target}`);
     } catch (e) {
@@ -211,239 +213,16 @@ export class ImageMetaView extends ItemView {
     }
   }
 
-  // --- In-pane search implementation ---
-  private buildSearchBar(container: HTMLElement) {
-    // Reuse if already exists (e.g., re-render for another file)
-    this.searchBarEl = container.createDiv({ cls: "imgmeta-searchbar" });
-    const input = this.searchBarEl.createEl("input", { type: "text" });
-    input.placeholder = "Find (parameters)";
-    input.value = this.searchQuery;
-    this.searchInputEl = input;
-
-    const count = this.searchBarEl.createEl("span", { cls: "imgmeta-search-count" });
-    this.searchCountEl = count as HTMLSpanElement;
-
-    const caseBtn = this.searchBarEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Aa" });
-    caseBtn.setAttr("aria-label", "Toggle case sensitive");
-    this.searchCaseEl = caseBtn;
-
-    const prev = this.searchBarEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Prev" });
-    const next = this.searchBarEl.createEl("button", { cls: "imgmeta-inline-btn", text: "Next" });
-    this.searchPrevEl = prev; this.searchNextEl = next;
-
-    caseBtn.onclick = () => {
-      this.searchCaseSensitive = !this.searchCaseSensitive;
-      caseBtn.classList.toggle("is-active", this.searchCaseSensitive);
-      this.recomputeMatches(false);
-    };
-    prev.onclick = () => this.findPrev();
-    next.onclick = () => this.findNext();
-
-    input.addEventListener("input", () => {
-      this.searchQuery = input.value;
-      // Update counts without moving focus away from input
-      this.recomputeMatches(false);
-    });
-    input.addEventListener("keydown", (ev) => {
-      if (ev.key === "Enter") {
-        ev.preventDefault();
-        if (ev.shiftKey) this.findPrev(); else this.findNext();
-      }
-    });
-    // Initialize case button visual state
-    if (this.searchCaseSensitive) caseBtn.classList.add("is-active");
-    this.updateCount();
-    // Initialize disabled/enabled state
-    this.setSearchEnabled(this.searchEnabled);
-  }
-
-  // Intentionally no global key handlers here to avoid interfering with
-  // Obsidian's built-in editor search. Navigation keys are handled via the
-  // Find input (Enter/Shift+Enter) and Prev/Next buttons.
-
+  // In-pane search (see search.ts); commands in main.ts call these
   openSearchBar() {
-    if (!this.searchBarEl) this.buildSearchBar(this.contentEl);
-    if (!this.searchEnabled) return; // don't focus when disabled
-    this.searchInputEl?.focus();
-    this.searchInputEl?.select();
-    // Do not focus matches when opening; keep caret in input
-    this.recomputeMatches(false);
-  }
-
-  private collectTargets(): HTMLTextAreaElement[] {
-    const root = this.contentEl;
-    const nodes = Array.from(root.querySelectorAll<HTMLTextAreaElement>("textarea.imgmeta-search-target"));
-    return nodes;
-  }
-
-  private escapeHtml(s: string): string {
-    return s.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[ch] as string));
-  }
-
-  private renderOverlayFor(target: HTMLTextAreaElement, ranges: { start: number; end: number; isCurrent?: boolean }[] | null) {
-    const overlayInner = this.overlayMap.get(target);
-    if (!overlayInner) return;
-    const text = target.value ?? "";
-    if (!ranges || ranges.length === 0) {
-      overlayInner.textContent = text;
-      return;
-    }
-    const rs = [...ranges].sort((a,b) => a.start - b.start);
-    let pos = 0;
-    const parts: string[] = [];
-    for (const r of rs) {
-      if (r.start > pos) parts.push(this.escapeHtml(text.slice(pos, r.start)));
-      const mid = this.escapeHtml(text.slice(r.start, r.end));
-      const cls = r.isCurrent ? "imgmeta-hit-range is-current" : "imgmeta-hit-range";
-      parts.push(`<span class=\"${cls}\">${mid}</span>`);
-      pos = r.end;
-    }
-    if (pos < text.length) parts.push(this.escapeHtml(text.slice(pos)));
-    overlayInner.innerHTML = parts.join("");
-  }
-
-  private renderAllOverlays(currentIndex: number | null) {
-    const groups = new Map<HTMLTextAreaElement, { start: number; end: number; isCurrent?: boolean }[]>();
-    this.matches.forEach((m, idx) => {
-      const arr = groups.get(m.el) ?? [];
-      arr.push({ start: m.start, end: m.end, isCurrent: currentIndex === idx });
-      groups.set(m.el, arr);
-    });
-    const targets = this.collectTargets();
-    for (const t of targets) {
-      const ranges = groups.get(t) ?? null;
-      this.renderOverlayFor(t, ranges);
-    }
-  }
-
-  private normalize(text: string): string {
-    return this.searchCaseSensitive ? text : text.toLowerCase();
-  }
-
-  private recomputeMatches(focus: boolean = false) {
-    const q = this.searchQuery || "";
-    // If search is disabled, just clear UI
-    if (!this.searchEnabled) {
-      const targets0 = this.collectTargets();
-      for (const t of targets0) this.renderOverlayFor(t, null);
-      this.matches = [];
-      this.matchIndex = -1;
-      this.updateCount();
-      return;
-    }
-    const targets = this.collectTargets();
-    for (const t of targets) this.renderOverlayFor(t, null);
-    this.matches = [];
-    if (!focus) this.matchIndex = -1;
-    if (!q.trim()) {
-      this.updateCount();
-      if (this.highlightedEl) { this.highlightedEl.classList.remove("imgmeta-hit"); this.highlightedEl = null; }
-      return;
-    }
-    const nq = this.normalize(q);
-    for (const ta of targets) {
-      const text = ta.value ?? "";
-      const nt = this.normalize(text);
-      let from = 0;
-      while (true) {
-        const idx = nt.indexOf(nq, from);
-        if (idx === -1) break;
-        this.matches.push({ el: ta, start: idx, end: idx + q.length });
-        from = idx + Math.max(1, q.length);
-      }
-    }
-    this.updateCount();
-    if (this.matches.length > 0) {
-      if (this.matchIndex < 0 || this.matchIndex >= this.matches.length) this.matchIndex = 0;
-      // Render faint highlight for all, optionally mark current
-      this.renderAllOverlays(focus ? this.matchIndex : null);
-      if (focus) this.focusCurrentMatch();
-    } else {
-      if (this.highlightedEl) { this.highlightedEl.classList.remove("imgmeta-hit"); this.highlightedEl = null; }
-    }
-  }
-
-  private focusCurrentMatch() {
-    if (this.matchIndex < 0 || this.matchIndex >= this.matches.length) return;
-    const m = this.matches[this.matchIndex];
-    // Open any <details> ancestors
-    let p: HTMLElement | null = m.el.parentElement;
-    while (p) {
-      if (p.tagName.toLowerCase() === "details") {
-        (p as HTMLDetailsElement).open = true;
-      }
-      p = p.parentElement;
-    }
-    if (this.highlightedEl && this.highlightedEl !== m.el) {
-      this.highlightedEl.classList.remove("imgmeta-hit");
-    }
-    m.el.classList.add("imgmeta-hit");
-    this.highlightedEl = m.el;
-    try { m.el.setSelectionRange(m.start, m.end); } catch { /* ignore */ }
-    // Re-render overlays to mark current distinctly and bring into view
-    this.renderAllOverlays(this.matchIndex);
-    this.ensureCurrentVisible(m.el);
-    m.el.scrollIntoView({ block: "nearest" });
-    this.updateCount();
-  }
-
-  private ensureCurrentVisible(ta: HTMLTextAreaElement) {
-    const overlayInner = this.overlayMap.get(ta);
-    const overlay = overlayInner?.parentElement as HTMLElement | undefined;
-    if (!overlayInner || !overlay) return;
-    const current = overlayInner.querySelector<HTMLElement>(".imgmeta-hit-range.is-current");
-    if (!current) return;
-    const rSpan = current.getBoundingClientRect();
-    const rOverlay = overlay.getBoundingClientRect();
-    let newTop = ta.scrollTop;
-    let newLeft = ta.scrollLeft;
-    const padY = 8; // matches textarea padding
-    const padX = 12;
-    if (rSpan.top < rOverlay.top + padY) {
-      newTop += (rSpan.top - (rOverlay.top + padY));
-    } else if (rSpan.bottom > rOverlay.bottom - padY) {
-      newTop += (rSpan.bottom - (rOverlay.bottom - padY));
-    }
-    if (rSpan.left < rOverlay.left + padX) {
-      newLeft += (rSpan.left - (rOverlay.left + padX));
-    } else if (rSpan.right > rOverlay.right - padX) {
-      newLeft += (rSpan.right - (rOverlay.right - padX));
-    }
-    newTop = Math.max(0, Math.round(newTop));
-    newLeft = Math.max(0, Math.round(newLeft));
-    if (newTop !== ta.scrollTop) ta.scrollTop = newTop;
-    if (newLeft !== ta.scrollLeft) ta.scrollLeft = newLeft;
+    this.search.open();
   }
 
   findNext() {
-    if (this.matches.length === 0) return;
-    if (this.matchIndex === -1) this.matchIndex = 0; else this.matchIndex = (this.matchIndex + 1) % this.matches.length;
-    this.focusCurrentMatch();
+    this.search.findNext();
   }
 
   findPrev() {
-    if (this.matches.length === 0) return;
-    if (this.matchIndex === -1) this.matchIndex = 0; else this.matchIndex = (this.matchIndex - 1 + this.matches.length) % this.matches.length;
-    this.focusCurrentMatch();
-  }
-
-  private updateCount() {
-    if (!this.searchCountEl) return;
-    const total = this.matches.length;
-    const current = this.matchIndex >= 0 ? (this.matchIndex + 1) : 0;
-    this.searchCountEl.textContent = this.searchEnabled ? (total > 0 ? `${current}/${total}` : "0/0") : "–";
-  }
-
-  private setSearchEnabled(enabled: boolean) {
-    this.searchEnabled = enabled;
-    if (!this.searchBarEl) return;
-    this.searchBarEl.classList.toggle("is-disabled", !enabled);
-    if (this.searchInputEl) {
-      this.searchInputEl.disabled = !enabled;
-    }
-    if (this.searchPrevEl) this.searchPrevEl.disabled = !enabled;
-    if (this.searchNextEl) this.searchNextEl.disabled = !enabled;
-    if (this.searchCaseEl) this.searchCaseEl.disabled = !enabled;
-    this.updateCount();
+    this.search.findPrev();
   }
 }
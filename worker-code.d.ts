@@ -0,0 +1,5 @@
+// Bundled worker source, provided by the `inline-worker` plugin in rollup.config.mjs
+declare module "worker:*" {
+    const code: string;
+    export default code;
+}
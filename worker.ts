@@ -0,0 +1,28 @@
+import { parseImageMeta } from "./parser";
+import type { ParseOptions } from "./parser";
+import type { WorkerRequest, WorkerResponse } from "./parseworker";
+
+/**
+ * Parser worker entry (bundled separately and inlined into main.js).
+ * Each request is answered twice: a fast pass without the whole-file
+ * recovery scans and stealth decoding, then the full result. The fast pass
+ * is what the main thread shows when a file times out.
+ */
+// The worker global, typed for the messages exchanged here (the build has no webworker lib)
+type ParserWorkerScope = {
+    onmessage: ((ev: MessageEvent<WorkerRequest>) => unknown) | null;
+    postMessage(msg: WorkerResponse): void;
+};
+const ctx = self as unknown as ParserWorkerScope;
+
+ctx.onmessage = async (ev: MessageEvent<WorkerRequest>) => {
+    const { id, buf, ext, opts } = ev.data;
+    const post = (msg: WorkerResponse) => ctx.postMessage(msg);
+    try {
+        const fast: ParseOptions = { ...opts, recover: false, stealth: false };
+        post({ id, kind: "partial", meta: await parseImageMeta(buf, ext, fast) });
+        post({ id, kind: "done", meta: await parseImageMeta(buf, ext, opts) });
+    } catch (e) {
+        post({ id, kind: "error", error: String((e as any)?.message ?? e) });
+    }
+};